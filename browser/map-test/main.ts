@@ -1,5 +1,5 @@
 import { Story } from 'inkjs';
-import { StoryletManager } from '../src/StoryletManager';
+import { StoryletManager, StoryletPlayer } from '../src/StoryletManager';
 import { runUntilReady } from '../src/StoryletRunner';
 import { MapManager, MapDef } from './map';
 import storyContent from '../../tests/map/main.json';
@@ -63,10 +63,12 @@ story.BindExternalFunction('get_map', () => {
 
 const manager = new StoryletManager(story);
 
-// onRefreshComplete fires once per pool. Once all pools are ready, update the map.
-manager.onRefreshComplete = (_pool: string) => {
-    if (manager.areAllReady()) onAllPoolsReady();
-};
+// The player marks a storylet played only once it finishes, then refreshes every
+// pool and ticks until they're ready (which fires allReady again).
+const player = new StoryletPlayer(manager);
+
+// allReady fires once every pool has finished refreshing — then update the map.
+manager.on('allReady', onAllPoolsReady);
 
 // ---------------------------------------------------------------------------
 // Story display
@@ -91,10 +93,11 @@ runUntilReady(manager);
 function onAllPoolsReady() {
     let anyAvailable = false;
 
-    // For each location marker on the current map, show it if a storylet is
-    // available there, or hide it if not.
+    // Group the playable storylets by location once, then show each location
+    // marker on the current map if a storylet is available there, or hide it if not.
+    const byLocation = manager.groupPlayableByTag('loc');
     mapManager.iterateSymbols((_element, locationId) => {
-        const storylet = manager.getFirstPlayableStoryletWithTag('loc', locationId);
+        const storylet = byLocation.get(locationId)?.[0];
         if (storylet) {
             const desc = String(manager.getStoryletTag(storylet, 'desc', ''));
             mapManager.setSymbolDesc(locationId, desc);
@@ -114,47 +117,42 @@ function onAllPoolsReady() {
 function chooseStorylet(knotID: string) {
     mapManager.lockMap();
 
-    // Mark as played (no pool specified → all pools searched; unknown IDs ignored)
-    manager.markPlayed(knotID);
-
     // Show the storylet title as a heading
     const heading = document.createElement('h3');
     heading.textContent = String(manager.getStoryletTag(knotID, 'desc', knotID));
     storyRoot.appendChild(heading);
 
-    // Jump to the storylet knot in the Ink story and run it
-    story.ChoosePathString(knotID);
+    // Jump to the storylet knot in the Ink story and run it. No pool specified →
+    // it is marked played in every pool it belongs to when it finishes.
+    player.start(knotID);
     runInk();
 }
 
 function runInk() {
-    while (story.canContinue) {
-        const text = story.Continue();
+    for (const line of player.continueMaximally()) {
         const para = document.createElement('p');
-        para.innerHTML = text ?? '';
+        para.innerHTML = line.text;
         storyRoot.appendChild(para);
     }
 
-    if (story.currentChoices.length === 0) {
-        // Storylet finished — add divider, unlock map, refresh availability
+    if (!player.isPlaying()) {
+        // Storylet finished — add divider, unlock map (the player is refreshing availability)
         storyRoot.appendChild(document.createElement('hr'));
         scrollToBottom();
         mapManager.unlockMap();
-        manager.refresh();
-        runUntilReady(manager);
         return;
     }
 
     // Render Ink choices as clickable list items
     const ul = document.createElement('ul');
     ul.classList.add('choices');
-    story.currentChoices.forEach((choice: any) => {
+    player.getChoices().forEach(choice => {
         const li = document.createElement('li');
         li.classList.add('choice');
         li.innerHTML = `<a href="#">${choice.text}</a>`;
         li.querySelector('a')!.addEventListener('click', (e) => {
             e.preventDefault();
-            story.ChooseChoiceIndex(choice.index);
+            player.choose(choice.index);
             ul.remove();
             runInk();
         });
@@ -165,6 +163,7 @@ function runInk() {
 }
 
 function reset() {
+    player.abandon();
     story.ResetState();
     manager.reset();
     mapManager.setMap('main');
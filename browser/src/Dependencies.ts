@@ -0,0 +1,121 @@
+import { Story } from 'inkjs';
+
+/**
+ * What a storylet's predicates read when they were last evaluated, as recorded by
+ * trackReads(). Used to re-evaluate only storylets whose inputs changed.
+ */
+export interface StoryletDependencies {
+    /** Global Ink variables read. */
+    variables: string[];
+    /** Whether storylet_play_count() or storylet_turns_since() was called. */
+    playHistory: boolean;
+    /**
+     * Whether anything untrackable was read — visit or turn counts, RANDOM(), other
+     * external functions, or a JS predicate — so the result must always be re-evaluated.
+     */
+    volatile: boolean;
+}
+
+/**
+ * Run `evaluate` (an Ink function evaluation) and record what it read from `story`.
+ * Calls to external functions named in `historyFunctions` count as play-history reads.
+ *
+ * inkjs has no read hooks, so the story state's accessors are wrapped for the duration
+ * of the call and restored afterwards, even if `evaluate` throws.
+ */
+export function trackReads<T>(
+    story: Story,
+    historyFunctions: ReadonlySet<string>,
+    evaluate: () => T
+): { result: T; dependencies: StoryletDependencies } {
+    const variables = new Set<string>();
+    let playHistory = false;
+    let volatile = false;
+    let incrementingVisits = 0;
+
+    const storyAny = story as any;
+    const state = storyAny.state;
+    const previousRandom = state.previousRandom;
+
+    const restores = [
+        wrapMethod(state.variablesState, 'GetVariableWithName', original => function (this: any, name: string | null, contextIndex?: number) {
+            // Temporaries and function arguments live on the call stack and aren't globals.
+            if (name !== null && this.GlobalVariableExistsWithName(name)) variables.add(name);
+            return original.call(this, name, contextIndex);
+        }),
+        // Entering a counted container increments its visit count, which reads the
+        // count and turn index; that is bookkeeping, not a read by the predicate.
+        wrapMethod(state, 'IncrementVisitCountForContainer', original => function (this: any, container: any) {
+            incrementingVisits++;
+            try {
+                return original.call(this, container);
+            } finally {
+                incrementingVisits--;
+            }
+        }),
+        wrapMethod(state, 'VisitCountForContainer', original => function (this: any, container: any) {
+            if (incrementingVisits === 0) volatile = true;
+            return original.call(this, container);
+        }),
+        wrapMethod(state, 'TurnsSinceForContainer', original => function (this: any, container: any) {
+            if (incrementingVisits === 0) volatile = true;
+            return original.call(this, container);
+        }),
+        wrapAccessor(state, 'currentTurnIndex', () => {
+            if (incrementingVisits === 0) volatile = true;
+        }),
+        wrapMethod(storyAny, 'CallExternalFunction', original => function (this: any, funcName: string | null, numberOfArguments: number) {
+            if (funcName !== null && historyFunctions.has(funcName)) playHistory = true;
+            else volatile = true;
+            return original.call(this, funcName, numberOfArguments);
+        })
+    ];
+
+    let result: T;
+    try {
+        result = evaluate();
+    } finally {
+        for (const restore of restores.reverse()) restore();
+    }
+
+    if (state.previousRandom !== previousRandom) volatile = true;
+    return { result, dependencies: { variables: Array.from(variables), playHistory, volatile } };
+}
+
+/*
+ * The wrappers are set as own properties, shadowing the prototype, and undone by
+ * deleting them. (Own property descriptors can't be inspected: VariablesState is a
+ * Proxy that reports every name as an own property.)
+ */
+
+/** Replace `target[name]` with a wrapper; returns a function that undoes it. */
+export function wrapMethod(target: any, name: string, wrap: (original: Function) => Function): () => void {
+    target[name] = wrap(target[name]);
+    return () => {
+        delete target[name];
+    };
+}
+
+/** Call `onGet` whenever the accessor `target[name]` is read; returns a function that undoes it. */
+function wrapAccessor(target: any, name: string, onGet: () => void): () => void {
+    let descriptor: PropertyDescriptor | undefined;
+    for (let proto = Object.getPrototypeOf(target); !descriptor && proto; proto = Object.getPrototypeOf(proto)) {
+        descriptor = Object.getOwnPropertyDescriptor(proto, name);
+    }
+    if (!descriptor?.get) return () => {};
+
+    const { get, set } = descriptor;
+    Object.defineProperty(target, name, {
+        configurable: true,
+        get() {
+            onGet();
+            return get.call(this);
+        },
+        set(value) {
+            set?.call(this, value);
+        }
+    });
+    return () => {
+        delete target[name];
+    };
+}
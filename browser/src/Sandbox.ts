@@ -0,0 +1,126 @@
+import { Story } from 'inkjs';
+import { wrapMethod } from './Dependencies';
+import { ExternalBinding, getExternalBindings } from './InkContent';
+
+/**
+ * How predicates are guarded against changing Ink state while they are evaluated:
+ *   'off'      predicates run on the live story unguarded
+ *   'verify'   mutations are reported (predicateMutation) but kept
+ *   'restore'  mutations are reported, then variables are put back as they were,
+ *              without notifying variable observers
+ */
+export type PredicateSandboxMode = 'off' | 'verify' | 'restore';
+
+/** Something a predicate changed (or tried to) while it was evaluated. */
+export type PredicateMutation =
+    /** A global Ink variable was assigned a different value. */
+    | { kind: 'variable'; variable: string; before: any; after: any }
+    /** The predicate output text (which Ink discards, but is usually a mistake). */
+    | { kind: 'output'; text: string }
+    /** An external function flagged as mutating, without a stub, was called. */
+    | { kind: 'external'; name: string; args: any[] };
+
+/**
+ * A flagged external function: `stub` runs in its place while a predicate is sandboxed,
+ * or, if null, the real function runs and the call is reported.
+ */
+export type ExternalStub = ((...args: any[]) => any) | null;
+
+/**
+ * Run `evaluate` (a predicate) against `story` and pass everything it changed to
+ * `report`, even if it throws. With `restore`, assigned globals are set back to their
+ * values from before the call. External functions in `externals` are replaced by their
+ * stubs for the duration of the call, or reported if they have none.
+ *
+ * Like trackReads(), this wraps the story state's methods and restores them afterwards.
+ */
+export function sandboxPredicate<T>(
+    story: Story,
+    restore: boolean,
+    externals: ReadonlyMap<string, ExternalStub>,
+    evaluate: () => T,
+    report: (mutations: PredicateMutation[]) => void
+): T {
+    const storyAny = story as any;
+    const state = storyAny.state;
+    const variablesState = state.variablesState;
+
+    // Variable → its raw Ink value before the first assignment.
+    const assigned = new Map<string, any>();
+    const externalCalls: PredicateMutation[] = [];
+    let output = '';
+
+    const restores = [
+        wrapMethod(variablesState, 'SetGlobal', original => function (this: any, name: string, value: any) {
+            if (!assigned.has(name)) assigned.set(name, this.GetRawVariableWithName(name, 0));
+            return original.call(this, name, value);
+        }),
+        wrapMethod(state, 'PushToOutputStream', original => function (this: any, obj: any) {
+            if (typeof obj?.value === 'string') output += obj.value;
+            return original.call(this, obj);
+        }),
+        swapExternals(getExternalBindings(story), externals, (name, args) => {
+            externalCalls.push({ kind: 'external', name, args });
+        })
+    ];
+    // The changes are about to be undone, so observers shouldn't hear about them.
+    if (restore) restores.push(wrapMethod(variablesState, 'variableChangedEvent', () => () => {}));
+
+    try {
+        return evaluate();
+    } finally {
+        const mutations: PredicateMutation[] = [];
+        for (const [variable, before] of assigned) {
+            const after = variablesState.GetRawVariableWithName(variable, 0);
+            if (!sameValue(before?.valueObject, after?.valueObject)) {
+                mutations.push({ kind: 'variable', variable, before: before?.valueObject ?? null, after: after?.valueObject ?? null });
+            }
+            if (restore && before) variablesState.SetGlobal(variable, before);
+        }
+        for (const restoreMethod of restores.reverse()) restoreMethod();
+
+        if (output.trim() !== '') mutations.push({ kind: 'output', text: output.trim() });
+        mutations.push(...externalCalls);
+        if (mutations.length > 0) report(mutations);
+    }
+}
+
+/**
+ * Replace the story's bindings for the flagged externals: with their stub, or with a
+ * wrapper that calls `onCall` first. Returns a function that puts the bindings back.
+ */
+function swapExternals(
+    bindings: Map<string, ExternalBinding>,
+    externals: ReadonlyMap<string, ExternalStub>,
+    onCall: (name: string, args: any[]) => void
+): () => void {
+    const originals = new Map<string, ExternalBinding | undefined>();
+    for (const [name, stub] of externals) {
+        const binding = bindings.get(name);
+        originals.set(name, binding);
+        if (stub) {
+            bindings.set(name, { lookAheadSafe: true, function: args => stub(...args) });
+        } else if (binding) {
+            bindings.set(name, {
+                lookAheadSafe: binding.lookAheadSafe,
+                function: args => {
+                    onCall(name, args);
+                    return binding.function(args);
+                }
+            });
+        }
+        // Unbound and without a stub: nothing is replaced, so Ink's fallback (or error) stands.
+    }
+    return () => {
+        for (const [name, binding] of originals) {
+            if (binding) bindings.set(name, binding);
+            else bindings.delete(name);
+        }
+    };
+}
+
+/** Ink values are compared by identity, or by their text for lists and divert targets. */
+function sameValue(a: any, b: any): boolean {
+    if (a === b) return true;
+    return typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && String(a) === String(b);
+}
@@ -0,0 +1,141 @@
+/**
+ * How the runner schedules its next tick(). Pass one to the runner functions (or
+ * setDefaultScheduler()) to choose how ticking fits into your environment.
+ */
+export interface Scheduler {
+    /** Call `callback` once, later. Returns a function that cancels it if it hasn't run yet. */
+    schedule(callback: () => void): () => void;
+}
+
+/** Schedules with setImmediate (Node.js): ticks as fast as possible between I/O. */
+export class ImmediateScheduler implements Scheduler {
+    constructor() {
+        requireGlobal('setImmediate', 'ImmediateScheduler');
+    }
+
+    public schedule(callback: () => void): () => void {
+        const handle = setImmediate(callback);
+        return () => clearImmediate(handle);
+    }
+}
+
+/** Schedules with requestAnimationFrame (browsers): one tick per frame. */
+export class AnimationFrameScheduler implements Scheduler {
+    constructor() {
+        requireGlobal('requestAnimationFrame', 'AnimationFrameScheduler');
+    }
+
+    public schedule(callback: () => void): () => void {
+        const id = requestAnimationFrame(() => callback());
+        return () => cancelAnimationFrame(id);
+    }
+}
+
+/**
+ * Schedules with a MessageChannel message: runs as soon as the current task finishes,
+ * without setTimeout's minimum delay or waiting for a frame. Works in browsers, web
+ * workers and Node.js.
+ */
+export class MessageChannelScheduler implements Scheduler {
+    private _channel: MessageChannel | null = null;
+    private _queue: (() => void)[] = [];
+
+    constructor() {
+        requireGlobal('MessageChannel', 'MessageChannelScheduler');
+    }
+
+    public schedule(callback: () => void): () => void {
+        const entry = () => callback();
+        this._queue.push(entry);
+        this.getChannel().port2.postMessage(null);
+        return () => {
+            const index = this._queue.indexOf(entry);
+            if (index !== -1) this._queue.splice(index, 1);
+        };
+    }
+
+    private getChannel(): MessageChannel {
+        if (!this._channel) {
+            const channel = new MessageChannel();
+            channel.port1.onmessage = () => {
+                const next = this._queue.shift();
+                // An open port keeps Node.js running, so close it whenever we go idle.
+                if (this._queue.length === 0 && this._channel === channel) {
+                    channel.port1.close();
+                    this._channel = null;
+                }
+                next?.();
+            };
+            this._channel = channel;
+        }
+        return this._channel;
+    }
+}
+
+/** Schedules with setTimeout, `delayMs` apart (default: 0). */
+export class TimeoutScheduler implements Scheduler {
+    constructor(private _delayMs: number = 0) {}
+
+    public schedule(callback: () => void): () => void {
+        const handle = setTimeout(callback, this._delayMs);
+        return () => clearTimeout(handle);
+    }
+}
+
+/**
+ * Runs nothing until you call step(), so tests (or a fixed-step game loop) decide
+ * exactly when each tick happens:
+ *
+ *   const scheduler = new ManualScheduler();
+ *   runUntilReady(manager, { scheduler });
+ *   scheduler.step();          // one tick
+ *   scheduler.runUntilIdle();  // tick until the refresh completes
+ */
+export class ManualScheduler implements Scheduler {
+    private _queue: (() => void)[] = [];
+
+    public schedule(callback: () => void): () => void {
+        const entry = () => callback();
+        this._queue.push(entry);
+        return () => {
+            const index = this._queue.indexOf(entry);
+            if (index !== -1) this._queue.splice(index, 1);
+        };
+    }
+
+    /** Number of callbacks waiting for step(). */
+    public get pending(): number {
+        return this._queue.length;
+    }
+
+    /**
+     * Run the callbacks scheduled so far, `steps` times over (default: once). Callbacks
+     * scheduled while stepping wait for the next step. Returns how many ran.
+     */
+    public step(steps: number = 1): number {
+        let ran = 0;
+        for (let i = 0; i < steps && this._queue.length > 0; i++) {
+            const due = this._queue;
+            this._queue = [];
+            for (const callback of due) {
+                callback();
+                ran++;
+            }
+        }
+        return ran;
+    }
+
+    /**
+     * Step until nothing is scheduled, at most `maxSteps` times (default: 10000).
+     * Returns how many callbacks ran.
+     */
+    public runUntilIdle(maxSteps: number = 10000): number {
+        return this.step(maxSteps);
+    }
+}
+
+function requireGlobal(name: string, scheduler: string): void {
+    if (typeof (globalThis as any)[name] !== 'function') {
+        throw new Error(`[StoryletRunner] ${scheduler} needs ${name}, which isn't available here`);
+    }
+}
@@ -0,0 +1,154 @@
+import type { RandomSource } from './Random';
+import type { StoryletManager } from './StoryletManager';
+
+/** A playable storylet offered to a SelectionStrategy, with its weight from the last refresh. */
+export interface SelectionCandidate {
+    knotID: string;
+    weight: number;
+}
+
+export interface SelectionContext {
+    pool: string;
+    /** Playable storylets in hand order. Never empty. */
+    candidates: SelectionCandidate[];
+    /** The manager's random source. Use it for every random decision. */
+    random: RandomSource;
+    /** For tag and play-history lookups. */
+    manager: StoryletManager;
+}
+
+/**
+ * Chooses which playable storylet pickPlayableStorylet() returns. Set one per pool
+ * with setSelectionStrategy(), or pass one to a single pickPlayableStorylet() call.
+ *
+ * Strategies that remember what they have chosen can implement getState()/setState()
+ * so that state is included in saves, reset() to forget it when the pool is reset,
+ * and abandoned() to take back a pending pick that wasn't played.
+ */
+export interface SelectionStrategy {
+    select(context: SelectionContext): string | null;
+    getState?(): any;
+    setState?(state: any): void;
+    reset?(): void;
+    /** A pickPendingStorylet() pick this strategy chose was abandoned instead of played. */
+    abandoned?(knotID: string): void;
+}
+
+/** Weighted random choice — the default. */
+export class WeightedRandomStrategy implements SelectionStrategy {
+    public select({ candidates, random }: SelectionContext): string | null {
+        const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+        if (total <= 0) return null;
+        let r = random.next() * total;
+        for (const c of candidates) {
+            r -= c.weight;
+            if (r < 0) return c.knotID;
+        }
+        return candidates[candidates.length - 1].knotID;
+    }
+}
+
+/** Always the highest-weighted storylet; ties go to the first in hand order. */
+export class HighestWeightStrategy implements SelectionStrategy {
+    public select({ candidates }: SelectionContext): string | null {
+        let best = candidates[0];
+        for (const c of candidates) {
+            if (c.weight > best.weight) best = c;
+        }
+        return best.knotID;
+    }
+}
+
+/**
+ * Only considers the highest `#priority` tier that has anything playable, then lets
+ * `inner` (weighted random by default) choose within that tier. Storylets without a
+ * priority tag are tier 0.
+ */
+export class PriorityTierStrategy implements SelectionStrategy {
+    constructor(
+        private _inner: SelectionStrategy = new WeightedRandomStrategy(),
+        private _tagName: string = 'priority'
+    ) {}
+
+    public select(context: SelectionContext): string | null {
+        const priorityOf = (knotID: string) => {
+            const value = Number(context.manager.getStoryletTag(knotID, this._tagName, 0));
+            return Number.isNaN(value) ? 0 : value;
+        };
+        const top = Math.max(...context.candidates.map(c => priorityOf(c.knotID)));
+        const tier = context.candidates.filter(c => priorityOf(c.knotID) === top);
+        return this._inner.select({ ...context, candidates: tier });
+    }
+
+    public getState(): any {
+        return this._inner.getState?.();
+    }
+
+    public setState(state: any): void {
+        this._inner.setState?.(state);
+    }
+
+    public reset(): void {
+        this._inner.reset?.();
+    }
+
+    public abandoned(knotID: string): void {
+        this._inner.abandoned?.(knotID);
+    }
+}
+
+/**
+ * Round-robin: the storylet played longest ago, with never-played storylets first.
+ * Ties go to the first in hand order.
+ */
+export class LeastRecentlyPlayedStrategy implements SelectionStrategy {
+    public select({ candidates, manager }: SelectionContext): string | null {
+        let best: string | null = null;
+        let bestTurn = Infinity;
+        for (const c of candidates) {
+            const turn = manager.getLastPlayedTurn(c.knotID) ?? -Infinity;
+            if (turn < bestTurn) {
+                best = c.knotID;
+                bestTurn = turn;
+            }
+        }
+        return best;
+    }
+}
+
+/**
+ * Deals each playable storylet once, in random order, before any repeats. When
+ * everything currently playable has been dealt, the bag is refilled. A pending pick
+ * that is abandoned goes back in the bag.
+ * Use one instance per pool — the bag is the instance's state.
+ */
+export class ShuffleBagStrategy implements SelectionStrategy {
+    private _dealt: Set<string> = new Set();
+
+    public select({ candidates, random }: SelectionContext): string | null {
+        let bag = candidates.filter(c => !this._dealt.has(c.knotID));
+        if (bag.length === 0) {
+            this._dealt.clear();
+            bag = candidates;
+        }
+        const knotID = bag[Math.floor(random.next() * bag.length)].knotID;
+        this._dealt.add(knotID);
+        return knotID;
+    }
+
+    public getState(): string[] {
+        return Array.from(this._dealt);
+    }
+
+    public setState(state: any): void {
+        this._dealt = new Set(Array.isArray(state) ? state : []);
+    }
+
+    public reset(): void {
+        this._dealt.clear();
+    }
+
+    public abandoned(knotID: string): void {
+        this._dealt.delete(knotID);
+    }
+}
@@ -1,31 +1,323 @@
 import { Story } from 'inkjs';
-
-const DEFAULT_POOL = 'default';
+import { RandomSource, SeededRandom } from './Random';
+import { EventEmitter, EventListener } from './Events';
+import { SelectionCandidate, SelectionStrategy, WeightedRandomStrategy } from './Selection';
+import { runUntil } from './StoryletRunner';
+import type { Scheduler } from './Scheduler';
+import { StoryletDependencies, trackReads } from './Dependencies';
+import { ExternalStub, PredicateMutation, PredicateSandboxMode, sandboxPredicate } from './Sandbox';
+import {
+    DEFAULT_POOL, StoryletCooldown, StoryletMatcher, findGroupPredicates, findStoryletGroup, getAllKnotIDs, getExternalBindings,
+    getKnotTags, parseStoryletsTag
+} from './InkContent';
+import { TagError, TagSchema, TagValue, TagValues, parseTypedTags } from './TagSchema';
+import {
+    StoryletQuery, TagCondition, TagIndex, addToTagIndex, lookupTagIndex, matchesTagQuery, sortByTags
+} from './TagQuery';
+import {
+    LoadOptions, LoadReport, SAVE_VERSION, SaveData, SavedPool, SNAPSHOT_VERSION, SnapshotData,
+    SnapshotLoadOptions, hashString, upgradeSaveData
+} from './SaveFormat';
+
+export type { RandomSource } from './Random';
+export { SeededRandom } from './Random';
+export type { EventListener } from './Events';
+export type {
+    LoadOptions, LoadReport, SaveData, SavedPool, SavedStorylet, SaveMigration, SnapshotData, SnapshotLoadOptions
+} from './SaveFormat';
+export { SAVE_VERSION, SNAPSHOT_VERSION } from './SaveFormat';
+export type { StoryletCooldown, StoryletMatcher } from './InkContent';
+export type { StoryletDependencies } from './Dependencies';
+export type { PredicateMutation, PredicateSandboxMode } from './Sandbox';
+export type { SelectionCandidate, SelectionContext, SelectionStrategy } from './Selection';
+export type { TagDefinition, TagError, TagSchema, TagType, TagValue, TagValues } from './TagSchema';
+export { BUILTIN_TAGS } from './TagSchema';
+export type { StoryletQuery, TagCondition, TagOperators, TagSort } from './TagQuery';
+export type {
+    StoryletChoice, StoryletLine, StoryletPlayerEvents, StoryletPlayerOptions
+} from './StoryletPlayer';
+export { StoryletPlayer } from './StoryletPlayer';
+export {
+    HighestWeightStrategy, LeastRecentlyPlayedStrategy, PriorityTierStrategy, ShuffleBagStrategy, WeightedRandomStrategy
+} from './Selection';
 
 interface PoolState {
     deck: Map<string, Storylet>;
     refreshList: Storylet[];
-    hand: string[];
-    handWeighted: string[];
+    hand: SelectionCandidate[];
+    /** Tag values of the hand, built alongside it. */
+    tagIndex: TagIndex;
+    /** Ink variables read by the pool's group predicates on the last refresh. */
+    groupVariables: Set<string>;
     state: State;
+    strategy: SelectionStrategy | null;
+    /** Higher-priority pools are refreshed first by a budgeted tick(). */
+    priority: number;
+    /** Size of the current (or last) refresh list, and when that refresh started and ended. */
+    refreshTotal: number;
+    refreshStartTime: number | null;
+    refreshEndTime: number | null;
+}
+
+/** A registration made in code, repeated by replaceStory(). */
+interface Registration {
+    /** addStorylets(), addStoryletsMatching() or addStorylet() (whose name is the knotID). */
+    kind: 'prefix' | 'match' | 'knot';
+    name: string;
+    pool: string;
+    match?: StoryletMatcher;
+}
+
+/** Events emitted by StoryletManager, mapped to their payload types. */
+export interface StoryletManagerEvents {
+    /** A pool's refresh list has been built and ticking can begin. */
+    refreshStarted: { pool: string };
+    /** A pool's refresh finished; its hand can now be queried. */
+    refreshComplete: { pool: string };
+    /**
+     * tick() processed storylets in a refreshing pool. Emitted at most once per pool per
+     * tick, before refreshComplete; `overall` covers every pool (see getRefreshProgress()).
+     */
+    refreshProgress: { pool: string; progress: RefreshProgress; overall: RefreshProgress };
+    /**
+     * A predicate threw and predicateErrorPolicy is 'report'; the storylet (or group)
+     * was treated as unavailable. `predicate` is the Ink function's name, or null for
+     * a JS predicate.
+     */
+    predicateError: { pool: string; knotID: string; predicate: string | null; error: unknown };
+    /**
+     * A predicate threw during a refresh with predicateErrorPolicy 'rethrow'; the pool's
+     * refresh was abandoned. `knotID` is the storylet, or the group predicate's name.
+     */
+    refreshFailed: { pool: string; knotID: string; error: unknown };
+    /**
+     * A predicate changed Ink state while predicateSandbox was on. `restored` is true if
+     * its variable assignments were undone ('restore'); output and external calls can't be.
+     */
+    predicateMutation: {
+        pool: string;
+        knotID: string;
+        predicate: string | null;
+        mutations: PredicateMutation[];
+        restored: boolean;
+    };
+    /** Every registered pool has a completed refresh. */
+    allReady: {};
+    /**
+     * pickPlayableStorylet() or pickPendingStorylet() chose a storylet (storyletPlayed
+     * follows when the pick is committed).
+     */
+    storyletPicked: { knotID: string; pool: string };
+    /** A pending storylet was abandoned, so it wasn't marked played. */
+    storyletAbandoned: { knotID: string; pool: string | null };
+    /** A storylet was marked played in a pool. */
+    storyletPlayed: { knotID: string; pool: string; playCount: number; turn: number };
+    /** A pool's played state was reset. */
+    poolReset: { pool: string };
+    /** removePool() unregistered a pool. */
+    poolRemoved: { pool: string };
+    /** loadFromJson() finished restoring state. */
+    stateLoaded: { report: LoadReport };
+    /** replaceStory() switched to a new story (emitted before the refresh it starts). */
+    storyReplaced: { report: ReplaceStoryReport };
+    /**
+     * An Ink variable read by a ready pool's predicates changed, so the pool was marked
+     * as needing a refresh (only when autoMarkNeedsRefresh is on).
+     */
+    poolInvalidated: { pool: string; variable: string };
+}
+
+/** Progress of a pool's refresh, or of all pools, from getRefreshProgress(). */
+export interface RefreshProgress {
+    /** 'ready' once complete; 'needsRefresh' if never refreshed, cancelled or reset. */
+    state: 'needsRefresh' | 'refreshing' | 'ready';
+    /** Storylets processed so far in the current (or last) refresh. */
+    evaluated: number;
+    /** Storylets in the refresh list (0 until a refresh starts). */
+    total: number;
+    /** evaluated / total, from 0 to 1 (1 for an empty refresh that has completed). */
+    fraction: number;
+    /** Milliseconds since the refresh started, or how long it took once complete (by `clock`). */
+    elapsedMs: number;
+    /**
+     * Estimated milliseconds until complete, from the time taken per storylet so far.
+     * Null until a storylet has been processed; 0 once complete.
+     */
+    estimatedRemainingMs: number | null;
+}
+
+/** One gate in a StoryletExplanation, in the order getWeighting() applies them. */
+export interface StoryletGate {
+    gate: 'group' | 'once' | 'cooldown' | 'jsPredicate' | 'inkPredicate';
+    passed: boolean;
+    /** Raw value behind the result (predicate return value, play count, cooldown, ...). */
+    value: any;
+    /** Human-readable description of the result. */
+    detail: string;
+}
+
+/** Result of explainStorylet(): why a storylet is or isn't playable right now. */
+export interface StoryletExplanation {
+    knotID: string;
+    pool: string;
+    /** Every gate, evaluated against the current state, in order. */
+    gates: StoryletGate[];
+    /** The first gate that failed, or null if the storylet is playable. */
+    blockedBy: StoryletGate['gate'] | null;
+    /** The weight a refresh would give it now (0 if blocked). */
+    weight: number;
+    /** The factors multiplied together to give `weight`: `#weight` tag, JS predicate, Ink predicate. */
+    weightFactors: { tag: number; js: number; ink: number };
+    /** Whether it is in the pool's current hand, or null if the pool isn't ready. */
+    inHand: boolean | null;
+}
+
+/**
+ * What to do when a predicate (Ink, group or JS) throws during a refresh:
+ *   'exclude'  log the error; the storylet (or group) is unavailable
+ *   'include'  log the error; the storylet (or group) is available
+ *   'rethrow'  abandon the pool's refresh, emit refreshFailed and rethrow
+ *   'report'   emit predicateError instead of logging; the storylet (or group) is unavailable
+ */
+export type PredicateErrorPolicy = 'exclude' | 'include' | 'rethrow' | 'report';
+
+/** Options for the StoryletManager constructor. */
+export interface StoryletManagerOptions<Tags extends TagSchema = {}> {
+    /**
+     * Declared types for custom tags, applied when storylets are registered (including
+     * pools registered by `#storylets:` global tags). Values that don't match are left
+     * unset and reported by getTagErrors(). Also types getStoryletTag() for these names:
+     *
+     *   new StoryletManager(story, { tags: { priority: 'integer', mood: ['calm', 'tense'] } })
+     */
+    tags?: Tags;
+}
+
+/** Options for StoryletManager.tick(). */
+export interface TickOptions {
+    /**
+     * Keep evaluating predicates, across all refreshing pools, until this many
+     * milliseconds (measured by `clock`) have passed, instead of storyletsPerTick per
+     * pool. Higher-priority pools go first; pools of equal priority take turns.
+     * At least one predicate is evaluated per call.
+     */
+    budgetMs?: number;
+}
+
+/** Options for StoryletManager.refreshAsync(). */
+export interface RefreshAsyncOptions {
+    /** Abort the refresh: the promise rejects and unfinished pools return to needing a refresh. */
+    signal?: AbortSignal;
+    /**
+     * If true (the default) tick() is driven automatically via the runner until the
+     * refresh completes. Pass false if your own game loop already calls tick().
+     */
+    drive?: boolean;
+    /** How the runner schedules ticks. Default: the runner's default scheduler. */
+    scheduler?: Scheduler;
+}
+
+/** Options for StoryletManager.replaceStory(). */
+export interface ReplaceStoryOptions {
+    /**
+     * Load the old story's Ink state (variables, visit counts, ...) into the new story.
+     * If it doesn't fit the new content the new story starts fresh. Default: true.
+     */
+    keepInkState?: boolean;
+    /**
+     * Bind the old story's external functions in the new story, except those the new
+     * story already binds. Default: false. The bindings are carried over as they are, so
+     * one that refers to the old Story (say, reads its variablesState) keeps reading the
+     * old story's state: only use this for bindings that don't, and otherwise bind them
+     * again on the new story (e.g. in watchStory()'s `prepare`).
+     */
+    keepExternals?: boolean;
+    /** Refresh every pool afterwards. Default: true. */
+    refresh?: boolean;
+}
+
+/** Result of replaceStory(). */
+export interface ReplaceStoryReport {
+    /** Pool name → knotIDs registered now that weren't before. */
+    added: Record<string, string[]>;
+    /** Pool name → knotIDs no longer registered (their knot is gone, or no longer matches). */
+    removed: Record<string, string[]>;
+    /** Pools removed because nothing registers into them any more. */
+    removedPools: string[];
+    /** Whether the old Ink state was loaded into the new story. */
+    inkStateKept: boolean;
+}
+
+/**
+ * A storylet that has been picked or begun but not yet marked played. Call commit()
+ * once it has been played through, or abandon() if it wasn't — only commit() applies
+ * the played state, play count and cooldowns, exactly as markPlayed() does.
+ */
+export interface PendingStorylet {
+    readonly knotID: string;
+    /** The pool it is marked played in on commit, or null for every pool it belongs to. */
+    readonly pool: string | null;
+    readonly status: 'pending' | 'committed' | 'abandoned';
+    /** Mark it played. Returns false (and changes nothing) if it is no longer pending. */
+    commit(): boolean;
+    /** Drop it without marking it played. Returns false if it is no longer pending. */
+    abandon(): boolean;
+}
+
+class PendingPick implements PendingStorylet {
+    public status: PendingStorylet['status'] = 'pending';
+
+    constructor(
+        public readonly knotID: string,
+        public readonly pool: string | null,
+        /** The strategy that picked it, told if it's abandoned; null for beginStorylet(). */
+        public strategy: SelectionStrategy | null,
+        private _onSettled: (pick: PendingPick) => void
+    ) {}
+
+    public commit(): boolean {
+        if (this.status !== 'pending') {
+            console.warn(`[StoryletManager] Can't commit "${this.knotID}": it was already ${this.status}`);
+            return false;
+        }
+        this.status = 'committed';
+        this._onSettled(this);
+        return true;
+    }
+
+    public abandon(): boolean {
+        if (this.status !== 'pending') return false;
+        this.status = 'abandoned';
+        this._onSettled(this);
+        return true;
+    }
 }
 
 class Storylet {
     public knotID: string;
-    public played: boolean = false;
+    /** The addStorylets() name it was registered under, or its knotID for addStorylet(). */
+    public registeredAs: string = '';
+    public playCount: number = 0;
+    public lastPlayedTurn: number | null = null;
     public once: boolean = false;
-    public groupPredicate: string | null = null;
+    public cooldown: StoryletCooldown | null = null;
+    public cooldownRemaining: number = 0;
+    public weightModifier: number = 1;
+    /** Group predicates gating it, outermost first (see findGroupPredicates()). */
+    public groupPredicates: string[] = [];
+    /** `_<knotID>` if that function exists, resolved at registration. */
+    public inkPredicate: string | null = null;
     public fnPredicate: ((knotID: string) => boolean | number) | null = null;
+    // What the predicates read last time, and their combined result if it can be reused.
+    public dependencies: StoryletDependencies | null = null;
+    public predicateWeight: number | null = null;
 
     constructor(knotID: string) {
         this.knotID = knotID;
     }
 }
 
-export class StoryletManager {
-    /** Called once per pool each time that pool's refresh completes. */
-    public onRefreshComplete: ((pool: string) => void) | null = null;
-
+export class StoryletManager<const Tags extends TagSchema = {}> {
     /**
      * Number of storylet predicates evaluated per tick() call, per refreshing pool.
      * Raise for faster completion; lower for smoother frame budgets.
@@ -33,17 +325,133 @@ export class StoryletManager {
      */
     public storyletsPerTick: number = 5;
 
+    /**
+     * Time budget in milliseconds for tick() calls that don't pass `budgetMs` (such as
+     * those made by the runner). If null, tick() evaluates storyletsPerTick per pool.
+     * Default: null.
+     */
+    public tickBudgetMs: number | null = null;
+
+    /**
+     * Returns the current time in milliseconds, for budgeted ticks. Replace it with a
+     * fake clock in tests. Default: performance.now(), or Date.now() where unavailable.
+     */
+    public clock: () => number = defaultClock;
+
+    /**
+     * Random source used for every random decision the manager makes (e.g. in
+     * pickPlayableStorylet()). Its state is included in saveAsJson(), so a restored
+     * save continues the same sequence. Replace with `new SeededRandom(seed)` for
+     * reproducible runs, or with your own RandomSource implementation.
+     */
+    public random: RandomSource = new SeededRandom();
+
+    /**
+     * If true, refresh() reuses each storylet's last predicate result unless something
+     * it read has changed since: an Ink variable, play history (for predicates calling
+     * storylet_play_count() or storylet_turns_since()), or anything untracked (visit and
+     * turn counts, RANDOM(), other external functions, JS predicates), which is always
+     * re-evaluated. Reused results don't count towards storyletsPerTick.
+     * Reads are only recorded (and variables observed) while this or autoMarkNeedsRefresh
+     * is on. Default: false.
+     */
+    public incrementalRefresh: boolean = false;
+
+    /**
+     * If true, when an Ink variable read by a ready pool's predicates (including group
+     * predicates) changes, that pool is marked as needing a refresh and poolInvalidated
+     * is emitted. Takes effect from the next refresh of each pool. Default: false.
+     */
+    public autoMarkNeedsRefresh: boolean = false;
+
+    /**
+     * What to do when a predicate throws during a refresh (see PredicateErrorPolicy).
+     * A missing predicate isn't an error: storylets without one are always available.
+     * Default: 'exclude'.
+     */
+    public predicateErrorPolicy: PredicateErrorPolicy = 'exclude';
+
+    /**
+     * Guard Ink state against predicates (Ink, group and JS) that assign variables, output
+     * text or call external functions flagged with flagMutatingExternal(): 'verify' reports
+     * each change with predicateMutation, 'restore' also undoes variable assignments.
+     * Applies to refreshes and explainStorylet(). Default: 'off'.
+     */
+    public predicateSandbox: PredicateSandboxMode = 'off';
+
     private _story: Story;
     private _pools: Map<string, PoolState> = new Map();
+    private _events: EventEmitter<StoryletManagerEvents> = new EventEmitter();
+    private _defaultStrategy: SelectionStrategy = new WeightedRandomStrategy();
 
     // Tag cache: knotID -> { tagName -> value }
     private _storyletTags: Map<string, Record<string, any>> = new Map();
-
-    constructor(story: Story) {
+    private _tagSchema: TagSchema;
+    private _tagErrors: TagError[] = [];
+
+    // Turn counter: incremented every time a storylet is marked played.
+    private _turn: number = 0;
+
+    // Lazily computed by getContentHash().
+    private _contentHash: string | null = null;
+
+    // Ink variable -> storylets whose predicates read it, and the variables being observed.
+    private _dependents: Map<string, Set<Storylet>> = new Map();
+    private _observedVariables: Set<string> = new Set();
+    // Picks handed out by pickPendingStorylet()/beginStorylet() and not yet settled.
+    private _pending: Set<PendingPick> = new Set();
+    // Turn counter for budgeted ticks, so equal-priority pools take turns across calls.
+    private _tickTurn: number = 0;
+    // External functions flagged by flagMutatingExternal(), with their stubs.
+    private _mutatingExternals: Map<string, ExternalStub> = new Map();
+    // Registrations made in code, in order (those from #storylets: tags aren't kept).
+    private _registrations: Registration[] = [];
+    // #storylets: tag registrations undone by removeStorylets()/removePool(), as "name,pool",
+    // so replaceStory() doesn't bring them back.
+    private _removedTagRegistrations: Set<string> = new Set();
+    // Told of every predicate error in a refresh, whatever predicateErrorPolicy says (see refreshAsync()).
+    private _predicateErrorWatchers: Set<(pool: string, error: unknown) => void> = new Set();
+    // Passed to ObserveVariable(), so replaceStory() can remove it from the old story.
+    private _variableObserver = (variable: string) => this.onVariableChanged(variable);
+
+    constructor(story: Story, options: StoryletManagerOptions<Tags> = {}) {
         this._story = story;
+        this._tagSchema = options.tags ?? {};
+        this.bindInkFunctions();
         this.addStoryletsFromGlobalTags();
     }
 
+    // --- Events ---
+
+    /**
+     * Subscribe to a manager event. Any number of listeners may subscribe to the
+     * same event. Returns a function that unsubscribes the listener.
+     *
+     *   const off = manager.on('refreshComplete', ({ pool }) => ...);
+     */
+    public on<K extends keyof StoryletManagerEvents>(
+        event: K,
+        listener: EventListener<StoryletManagerEvents[K]>
+    ): () => void {
+        return this._events.on(event, listener);
+    }
+
+    /** Subscribe to the next occurrence of a manager event only. */
+    public once<K extends keyof StoryletManagerEvents>(
+        event: K,
+        listener: EventListener<StoryletManagerEvents[K]>
+    ): () => void {
+        return this._events.once(event, listener);
+    }
+
+    /** Unsubscribe a listener previously passed to on() or once(). */
+    public off<K extends keyof StoryletManagerEvents>(
+        event: K,
+        listener: EventListener<StoryletManagerEvents[K]>
+    ): void {
+        this._events.off(event, listener);
+    }
+
     // --- State accessors ---
 
     /** Returns true if the given pool (default: 'default') has a completed refresh. */
@@ -70,6 +478,11 @@ export class StoryletManager {
         return true;
     }
 
+    /** The Ink story the manager evaluates predicates against. */
+    public getStory(): Story {
+        return this._story;
+    }
+
     // --- Storylet registration ---
 
     /**
@@ -83,40 +496,107 @@ export class StoryletManager {
      * storylet predicates. This is useful for location- or state-dependent pools (e.g. the
      * group is only active when the player is in a certain area).
      *
+     * Deeper underscore-delimited levels can have group predicates too: `world_town_inn_1`
+     * is also gated by `_world_town()` and `_world_town_inn()` if they exist, checked
+     * outermost first.
+     *
+     * Storylets already in the pool are re-read (tags and predicates) but keep their
+     * played state and JS predicate, so calling this again is safe.
      * Defaults to the 'default' pool.
      */
     public addStorylets(name: string, pool: string = DEFAULT_POOL): void {
-        const prefix = name + '_';
-        const knotIDs = this.getAllKnotIDs();
-
-        // Determine group predicate (optional — only used if the function exists)
-        const groupPredFn = '_' + name;
-        const groupPredicate = knotIDs.includes(groupPredFn) ? groupPredFn : null;
+        this.register({ kind: 'prefix', name, pool });
+    }
 
-        const poolState = this.getOrCreatePoolState(pool);
-        const discovered: string[] = [];
+    /**
+     * Like addStorylets(), but registers the knots `match` picks — a regular expression
+     * tested against each knotID, or a function returning true — instead of those
+     * starting with `name_`. Knots starting with `_` (predicate functions) are never
+     * matched. `name` identifies the group for removeStorylets(), and `_<name>()` is still
+     * used as its group predicate if it exists.
+     *
+     *   manager.addStoryletsMatching('tavern', /^(bar|inn)_/, 'town');
+     */
+    public addStoryletsMatching(name: string, match: StoryletMatcher, pool: string = DEFAULT_POOL): void {
+        this.register({ kind: 'match', name, pool, match });
+    }
 
-        for (const knotID of knotIDs) {
-            if (!knotID.startsWith(prefix)) continue;
+    /**
+     * Register a single knot as a storylet in `pool`, with no group predicate. Its
+     * `_<knotID>()` predicate and tags are used as for discovered storylets.
+     * Returns false if the story has no such knot.
+     */
+    public addStorylet(knotID: string, pool: string = DEFAULT_POOL): boolean {
+        if (!getAllKnotIDs(this._story).includes(knotID)) {
+            console.error(`[StoryletManager] addStorylet: knot "${knotID}" not found in the story`);
+            return false;
+        }
+        this.register({ kind: 'knot', name: knotID, pool });
+        return true;
+    }
 
-            // Read and cache all tags for this storylet (cast to any to handle
-            // both inkjs API versions: TagsForContentAtPath vs tagsForContentAtPath)
-            const storyAny = this._story as any;
-            const rawTags: string[] | null = storyAny.TagsForContentAtPath
-                ? storyAny.TagsForContentAtPath(knotID)
-                : storyAny.tagsForContentAtPath?.(knotID) ?? null;
+    /**
+     * Unregister the storylets added to `pool` under `name` — by addStorylets(name),
+     * addStoryletsMatching(name, ...) or a `#storylets:` tag — or, for one added with
+     * addStorylet(), under its knotID. They leave the pool's hand (and any refresh in
+     * progress) straight away; pending picks of them from the pool are abandoned.
+     * A removed tag registration stays removed when replaceStory() re-reads the tags.
+     * Returns the removed knotIDs.
+     */
+    public removeStorylets(name: string, pool: string = DEFAULT_POOL): string[] {
+        const poolState = this._pools.get(pool);
+        const removed = poolState
+            ? Array.from(poolState.deck.values()).filter(s => s.registeredAs === name)
+            : [];
+        if (!poolState || removed.length === 0) {
+            console.warn(`[StoryletManager] removeStorylets: no storylets registered as "${name}" in pool "${pool}"`);
+            return [];
+        }
 
-            const tags = parseTags(rawTags ?? []);
-            this._storyletTags.set(knotID, tags);
+        this._registrations = this._registrations.filter(r => r.name !== name || r.pool !== pool);
+        this.forgetTagRegistrations(r => r.name === name && r.pool === pool);
+        for (const storylet of removed) {
+            poolState.deck.delete(storylet.knotID);
+            this.setDependencies(storylet, null);
+        }
+        const knotIDs = removed.map(s => s.knotID);
+        this.dropRemoved(knotIDs, pool);
+        this.syncWithDeck(poolState);
+        console.log(`[StoryletManager] Removed ${knotIDs.length} storylets from pool "${pool}" (name="${name}"):`, knotIDs);
+        return knotIDs;
+    }
 
-            const storylet = new Storylet(knotID);
-            storylet.once = tags['once'] === true;
-            storylet.groupPredicate = groupPredicate;
-            poolState.deck.set(knotID, storylet);
-            discovered.push(knotID);
+    /**
+     * Unregister a pool and all its storylets. A refresh in progress is abandoned,
+     * pending picks from the pool are abandoned, and poolRemoved is emitted. `#storylets:`
+     * tags registering into the pool are ignored by later replaceStory() calls.
+     * Returns false if there is no such pool.
+     */
+    public removePool(pool: string): boolean {
+        const poolState = this._pools.get(pool);
+        if (!poolState) {
+            console.warn(`[StoryletManager] removePool: pool "${pool}" not found`);
+            return false;
         }
 
-        console.log(`[StoryletManager] Discovered ${discovered.length} storylets for pool "${pool}" (name="${name}"):`, discovered);
+        this.cancelRefresh(pool);
+        this._pools.delete(pool);
+        this._registrations = this._registrations.filter(r => r.pool !== pool);
+        this.forgetTagRegistrations(r => r.pool === pool);
+        for (const storylet of poolState.deck.values()) this.setDependencies(storylet, null);
+        this.dropRemoved(Array.from(poolState.deck.keys()), pool);
+        this._events.emit('poolRemoved', { pool });
+        return true;
+    }
+
+    /** Returns the names of all registered pools, in registration order. */
+    public getPoolNames(): string[] {
+        return Array.from(this._pools.keys());
+    }
+
+    /** The names of the pools a storylet is registered in, in registration order. */
+    public getStoryletPools(knotID: string): string[] {
+        return Array.from(this._pools).filter(([, poolState]) => poolState.deck.has(knotID)).map(([name]) => name);
     }
 
     // --- Refresh ---
@@ -125,50 +605,240 @@ export class StoryletManager {
      * Start a refresh for a specific pool, or all registered pools if none specified.
      * Builds the refresh list synchronously (group predicates evaluated here, where
      * external Ink functions are bound), then sets state to REFRESHING.
-     * Call tick() each frame to process the list. onRefreshComplete fires per pool.
+     * Call tick() each frame to process the list. Emits refreshStarted per pool.
+     * With incrementalRefresh on, only storylets whose dependencies changed are evaluated.
      */
     public refresh(pool?: string): void {
         if (pool !== undefined) {
             const poolState = this.getOrCreatePoolState(pool);
             if (poolState.state === State.REFRESHING) return;
-            poolState.hand = [];
-            poolState.handWeighted = [];
-            poolState.refreshList = this.buildRefreshList(poolState);
-            poolState.state = State.REFRESHING;
+            this.startRefresh(pool, poolState);
         } else {
-            for (const poolState of this._pools.values()) {
-                poolState.hand = [];
-                poolState.handWeighted = [];
-                poolState.refreshList = this.buildRefreshList(poolState);
-                poolState.state = State.REFRESHING;
+            for (const [poolName, poolState] of this._pools) {
+                this.startRefresh(poolName, poolState);
             }
         }
     }
 
     /**
-     * Process up to storyletsPerTick items per refreshing pool.
-     * Must be called regularly (e.g. each animation frame) after refresh().
-     * Fires onRefreshComplete once per pool when that pool's list is exhausted.
+     * Refresh a specific pool, or all registered pools if none specified, and return a
+     * Promise that resolves with the resulting hands (pool name → playable knotIDs)
+     * once every requested pool has completed.
+     *
+     * The work is still time-sliced through tick(). By default tick() is driven for
+     * you via the runner; pass `drive: false` if your own loop already calls it.
+     * The promise rejects if a predicate in a requested pool throws — whatever the
+     * predicateErrorPolicy, which still decides what is logged or emitted — or if
+     * `signal` is aborted. Either way unfinished pools are returned to needing a refresh,
+     * including any this call started before a group predicate threw.
      */
-    public tick(): void {
-        for (const [poolName, poolState] of this._pools) {
-            if (poolState.state !== State.REFRESHING) continue;
-
-            const count = Math.min(this.storyletsPerTick, poolState.refreshList.length);
-            for (let i = 0; i < count; i++) {
-                const storylet = poolState.refreshList.shift()!;
-                const w = this.getWeighting(storylet);
-                if (w > 0) {
-                    poolState.hand.push(storylet.knotID);
-                    for (let j = 0; j < w; j++) poolState.handWeighted.push(storylet.knotID);
+    public refreshAsync(pool?: string, options: RefreshAsyncOptions = {}): Promise<Record<string, string[]>> {
+        const { signal, drive = true, scheduler } = options;
+        if (signal?.aborted) return Promise.reject(signal.reason);
+
+        const started: string[] = [];
+        const startErrors: unknown[] = [];
+        const watchStart = (_pool: string, error: unknown) => startErrors.push(error);
+        this._predicateErrorWatchers.add(watchStart);
+        try {
+            if (pool !== undefined) {
+                this.refresh(pool);
+                started.push(pool);
+            } else {
+                for (const [poolName, poolState] of this._pools) {
+                    this.startRefresh(poolName, poolState);
+                    started.push(poolName);
                 }
             }
+            if (startErrors.length > 0) throw startErrors[0];
+        } catch (error) {
+            // Nothing will wait on (or drive) the pools started before the failure.
+            for (const p of started) this.cancelRefresh(p);
+            return Promise.reject(error);
+        } finally {
+            this._predicateErrorWatchers.delete(watchStart);
+        }
+        const poolNames = pool !== undefined ? [pool] : Array.from(this._pools.keys());
+        const pending = new Set(poolNames.filter(p => !this.isReady(p)));
+
+        return new Promise((resolve, reject) => {
+            const cleanups: (() => void)[] = [];
+            const finish = (settle: () => void) => {
+                for (const cleanup of cleanups) cleanup();
+                settle();
+            };
+            const resolveHands = () => {
+                const hands: Record<string, string[]> = {};
+                for (const p of poolNames) hands[p] = (this._pools.get(p)?.hand ?? []).map(e => e.knotID);
+                finish(() => resolve(hands));
+            };
+
+            if (pending.size === 0) {
+                resolveHands();
+                return;
+            }
+
+            cleanups.push(this.on('refreshComplete', ({ pool: p }) => {
+                pending.delete(p);
+                if (pending.size === 0) resolveHands();
+            }));
+            cleanups.push(this.on('refreshFailed', ({ pool: p, error }) => {
+                if (pending.has(p)) finish(() => reject(error));
+            }));
+            const onPredicateError = (p: string, error: unknown) => {
+                if (!pending.has(p)) return;
+                for (const q of pending) this.cancelRefresh(q);
+                finish(() => reject(error));
+            };
+            this._predicateErrorWatchers.add(onPredicateError);
+            cleanups.push(() => this._predicateErrorWatchers.delete(onPredicateError));
+            // A removed pool resolves with an empty hand.
+            cleanups.push(this.on('poolRemoved', ({ pool: p }) => {
+                if (pending.delete(p) && pending.size === 0) resolveHands();
+            }));
+
+            if (signal) {
+                const onAbort = () => {
+                    for (const p of pending) this.cancelRefresh(p);
+                    finish(() => reject(signal.reason));
+                };
+                signal.addEventListener('abort', onAbort, { once: true });
+                cleanups.push(() => signal.removeEventListener('abort', onAbort));
+            }
+
+            // Failures are reported through refreshFailed above, so swallow the rethrow.
+            if (drive) cleanups.push(runUntil(this, () => pending.size === 0, () => {}, scheduler));
+        });
+    }
+
+    /**
+     * Abandon an in-progress refresh for a specific pool, or all pools if none
+     * specified. Refreshing pools return to needing a refresh; others are untouched.
+     */
+    public cancelRefresh(pool?: string): void {
+        const poolStates = pool !== undefined ? [this._pools.get(pool)] : Array.from(this._pools.values());
+        for (const poolState of poolStates) {
+            if (poolState?.state !== State.REFRESHING) continue;
+            poolState.refreshList = [];
+            clearHand(poolState);
+            poolState.state = State.NEEDS_REFRESH;
+            clearRefreshProgress(poolState);
+        }
+    }
 
-            if (poolState.refreshList.length === 0) {
-                poolState.state = State.REFRESH_COMPLETE;
-                if (this.onRefreshComplete) this.onRefreshComplete(poolName);
+    /**
+     * Process up to storyletsPerTick items per refreshing pool — or, with a time budget
+     * (`budgetMs`, or `tickBudgetMs` if set), as many as fit in the budget, highest
+     * pool priority first and round-robin between pools of equal priority.
+     * Must be called regularly (e.g. each animation frame) after refresh().
+     * Emits refreshProgress for each pool it processed, refreshComplete once per pool
+     * when that pool's list is exhausted, and allReady when the last refreshing pool
+     * completes.
+     *
+     * If a predicate throws, predicateErrorPolicy decides what happens; with 'rethrow'
+     * that pool's refresh is abandoned, refreshFailed is emitted and the exception is
+     * rethrown.
+     */
+    public tick(options: TickOptions = {}): void {
+        const budgetMs = options.budgetMs ?? this.tickBudgetMs;
+        const refreshing = Array.from(this._pools).filter(([, poolState]) => poolState.state === State.REFRESHING);
+        // Stable sort: equal priorities keep registration order.
+        refreshing.sort(([, a], [, b]) => b.priority - a.priority);
+
+        let anyCompleted = false;
+        const progressed = new Set<string>();
+        if (budgetMs === null || budgetMs === undefined) {
+            for (const [poolName, poolState] of refreshing) {
+                // A listener may have cancelled it earlier in this tick.
+                if (poolState.state !== State.REFRESHING) continue;
+                let evaluated = 0;
+                while (evaluated < this.storyletsPerTick && poolState.refreshList.length > 0) {
+                    if (this.evaluateNext(poolName, poolState)) evaluated++;
+                    progressed.add(poolName);
+                }
+                if (this.completeIfDone(poolName, poolState, progressed)) anyCompleted = true;
+            }
+        } else {
+            const start = this.clock();
+            let evaluatedAny = false;
+            for (let i = 0; i < refreshing.length;) {
+                // The pools sharing the current highest priority take turns.
+                const priority = refreshing[i][1].priority;
+                let end = i;
+                while (end < refreshing.length && refreshing[end][1].priority === priority) end++;
+                const tier = refreshing.slice(i, end);
+
+                while (tier.length > 0 && (!evaluatedAny || this.clock() - start < budgetMs)) {
+                    const index = this._tickTurn++ % tier.length;
+                    const [poolName, poolState] = tier[index];
+                    if (poolState.state !== State.REFRESHING) {
+                        tier.splice(index, 1);
+                        continue;
+                    }
+                    if (poolState.refreshList.length > 0) {
+                        this.evaluateNext(poolName, poolState);
+                        evaluatedAny = true;
+                        progressed.add(poolName);
+                    }
+                    if (this.completeIfDone(poolName, poolState, progressed)) {
+                        anyCompleted = true;
+                        tier.splice(index, 1);
+                    }
+                }
+                if (tier.length > 0) break;
+                i = end;
             }
         }
+
+        // Pools that completed have already reported their progress.
+        for (const poolName of progressed) {
+            if (this._pools.get(poolName)?.state === State.REFRESHING) this.emitProgress(poolName);
+        }
+        if (anyCompleted && this.areAllReady()) this._events.emit('allReady', {});
+    }
+
+    /**
+     * Returns the progress of a pool's current (or last) refresh, or of all pools if
+     * none is specified: their storylets added together, with time measured from the
+     * earliest start. Pools that haven't started a refresh count as 0 of 0.
+     * Returns null if the pool isn't registered.
+     */
+    public getRefreshProgress(pool?: string): RefreshProgress | null {
+        const now = this.clock();
+        if (pool !== undefined) {
+            const poolState = this._pools.get(pool);
+            return poolState ? poolProgress(poolState, now) : null;
+        }
+
+        const progress = Array.from(this._pools.values(), poolState => poolProgress(poolState, now));
+        const evaluated = progress.reduce((sum, p) => sum + p.evaluated, 0);
+        const total = progress.reduce((sum, p) => sum + p.total, 0);
+        const state = progress.some(p => p.state === 'refreshing') ? 'refreshing'
+            : progress.length > 0 && progress.every(p => p.state === 'ready') ? 'ready'
+            : 'needsRefresh';
+
+        const started = Array.from(this._pools.values()).filter(p => p.state !== State.NEEDS_REFRESH);
+        const starts = started.map(p => p.refreshStartTime).filter((t): t is number => t !== null);
+        const ends = started.map(p => p.refreshEndTime ?? now);
+        const elapsedMs = starts.length > 0 && ends.length > 0 ? Math.max(...ends) - Math.min(...starts) : 0;
+        return {
+            state,
+            evaluated,
+            total,
+            fraction: total > 0 ? evaluated / total : state === 'ready' ? 1 : 0,
+            elapsedMs,
+            estimatedRemainingMs: estimateRemaining(state, evaluated, total, elapsedMs)
+        };
+    }
+
+    /** Set the priority of a pool (default: 0). Budgeted ticks refresh higher priorities first. */
+    public setPoolPriority(priority: number, pool: string = DEFAULT_POOL): void {
+        this.getOrCreatePoolState(pool).priority = priority;
+    }
+
+    /** Returns the priority of a pool (default: 0). */
+    public getPoolPriority(pool: string = DEFAULT_POOL): number {
+        return this.getPoolState(pool).priority;
     }
 
     // --- Query ---
@@ -176,6 +846,10 @@ export class StoryletManager {
     /**
      * Returns the playable storylets for the given pool (default: 'default').
      * Returns null if that pool's refresh is not yet complete.
+     *
+     * If `weighted` is true each knotID is repeated in proportion to its weight,
+     * rounded to a whole number of entries (at least one). Weights can be fractional,
+     * so prefer getPlayableStoryletWeights() for exact values.
      */
     public getPlayableStorylets(weighted: boolean = false, pool: string = DEFAULT_POOL): string[] | null {
         const poolState = this._pools.get(pool);
@@ -183,46 +857,153 @@ export class StoryletManager {
             console.error(`Don't call getPlayableStorylets until refresh is complete for pool "${pool}"!`);
             return null;
         }
-        return weighted ? poolState.handWeighted : poolState.hand;
+        if (!weighted) return poolState.hand.map(e => e.knotID);
+
+        const result: string[] = [];
+        for (const { knotID, weight } of poolState.hand) {
+            const copies = Math.max(1, Math.round(weight));
+            for (let j = 0; j < copies; j++) result.push(knotID);
+        }
+        return result;
     }
 
     /**
-     * Picks a random playable storylet from the given pool (default: 'default'),
-     * weighted by predicate return values, and marks it as played.
-     * Returns null if the pool is not ready or has no playable storylets.
+     * Returns the playable storylets for the given pool (default: 'default') with their
+     * weights from the last refresh. Returns null if that pool's refresh is not yet complete.
      */
-    public pickPlayableStorylet(pool: string = DEFAULT_POOL): string | null {
+    public getPlayableStoryletWeights(pool: string = DEFAULT_POOL): SelectionCandidate[] | null {
         const poolState = this._pools.get(pool);
         if (!poolState || poolState.state !== State.REFRESH_COMPLETE) {
-            console.error(`Don't call pickPlayableStorylet until refresh is complete for pool "${pool}"!`);
+            console.error(`Don't call getPlayableStoryletWeights until refresh is complete for pool "${pool}"!`);
+            return null;
+        }
+        return poolState.hand.map(e => ({ ...e }));
+    }
+
+    /**
+     * Picks a playable storylet from the given pool (default: 'default') and marks it
+     * as played. The choice is made by `strategy` if given, else the pool's strategy
+     * (see setSelectionStrategy()), else weighted random by predicate return values.
+     * Randomness comes from `random`, so picks are reproducible for a given seed.
+     * Returns null if the pool is not ready or has no playable storylets.
+     *
+     * Use pickPendingStorylet() instead if the storylet might not be played through.
+     */
+    public pickPlayableStorylet(pool: string = DEFAULT_POOL, strategy?: SelectionStrategy): string | null {
+        const pending = this.pickPending('pickPlayableStorylet', pool, strategy);
+        if (!pending) return null;
+        pending.commit();
+        return pending.knotID;
+    }
+
+    /**
+     * Picks a playable storylet exactly as pickPlayableStorylet() does, but doesn't mark
+     * it played: returns a PendingStorylet to commit() once it has been played through,
+     * or abandon() if the player quits part-way (a `#once` storylet then stays available).
+     * The hand isn't changed until a refresh, so a pending storylet can be picked again.
+     * Returns null if the pool is not ready or has no playable storylets.
+     */
+    public pickPendingStorylet(pool: string = DEFAULT_POOL, strategy?: SelectionStrategy): PendingStorylet | null {
+        return this.pickPending('pickPendingStorylet', pool, strategy);
+    }
+
+    /**
+     * Begin a specific storylet without picking it: returns a PendingStorylet that marks
+     * it played in `pool` on commit() — or, if `pool` is omitted, in every pool it is
+     * registered in. Returns null if it isn't registered (in `pool`).
+     */
+    public beginStorylet(knotID: string, pool?: string): PendingStorylet | null {
+        const pools = this.getStoryletPools(knotID);
+        if (pool !== undefined ? !pools.includes(pool) : pools.length === 0) {
+            console.error(`[StoryletManager] "${knotID}" is not a registered storylet` + (pool !== undefined ? ` in pool "${pool}"` : ''));
             return null;
         }
+        return this.createPending(knotID, pool ?? null, null);
+    }
+
+    /** Returns the storylets picked or begun and not yet committed or abandoned. */
+    public getPendingStorylets(): PendingStorylet[] {
+        return Array.from(this._pending);
+    }
 
-        if (poolState.handWeighted.length === 0) return null;
+    /**
+     * Choose a storylet from the pool's hand exactly as pickPlayableStorylet() would,
+     * but without marking it played or emitting storyletPicked — call markPlayed()
+     * yourself once it has actually been played (or use pickPendingStorylet()).
+     * Returns null if the pool isn't ready or nothing is playable.
+     */
+    public selectPlayableStorylet(pool: string = DEFAULT_POOL, strategy?: SelectionStrategy): string | null {
+        return this.selectStorylet('selectPlayableStorylet', pool, strategy);
+    }
 
-        const i = Math.floor(Math.random() * poolState.handWeighted.length);
-        const knotID = poolState.handWeighted[i];
-        this.markPlayed(knotID, pool);
-        return knotID;
+    /**
+     * Set how pickPlayableStorylet() chooses from a pool (default: 'default'), e.g.
+     * `new ShuffleBagStrategy()`. Pass null to go back to weighted random.
+     * Use a separate instance per pool for strategies that keep state.
+     */
+    public setSelectionStrategy(strategy: SelectionStrategy | null, pool: string = DEFAULT_POOL): void {
+        this.getOrCreatePoolState(pool).strategy = strategy;
     }
 
     /**
      * Mark a storylet as played. If pool is omitted, all pools are searched
      * (safe — unknown knotIDs are silently ignored).
+     *
+     * This counts as a pick for `#cooldown: N picks` storylets in the same pool,
+     * and starts this storylet's own cooldown if it has one.
      */
     public markPlayed(knotID: string, pool?: string): void {
-        if (pool !== undefined) {
-            const poolState = this._pools.get(pool);
-            if (poolState) {
-                const s = poolState.deck.get(knotID);
-                if (s) s.played = true;
-            }
-        } else {
-            for (const poolState of this._pools.values()) {
-                const s = poolState.deck.get(knotID);
-                if (s) s.played = true;
-            }
+        const poolNames = pool !== undefined ? [pool] : Array.from(this._pools.keys());
+        const matching = poolNames.filter(p => this._pools.get(p)?.deck.has(knotID));
+        if (matching.length === 0) return;
+
+        this._turn++;
+        for (const poolName of matching) {
+            const poolState = this._pools.get(poolName)!;
+            markPlayedInPool(poolState, knotID, this._turn);
+            const playCount = poolState.deck.get(knotID)!.playCount;
+            this._events.emit('storyletPlayed', { knotID, pool: poolName, playCount, turn: this._turn });
         }
+        this.invalidatePlayHistory();
+    }
+
+    // --- Play history ---
+
+    /**
+     * Returns the current turn: the number of times any storylet has been marked
+     * played since the last full reset(). Starts at 0.
+     */
+    public getCurrentTurn(): number {
+        return this._turn;
+    }
+
+    /** Returns how many times a storylet has been played (0 if never or unknown). */
+    public getPlayCount(knotID: string): number {
+        return this.findStorylet(knotID)?.playCount ?? 0;
+    }
+
+    /** Returns the turn on which a storylet was last played, or null if never played. */
+    public getLastPlayedTurn(knotID: string): number | null {
+        return this.findStorylet(knotID)?.lastPlayedTurn ?? null;
+    }
+
+    /**
+     * Returns how many turns have passed since a storylet was last played
+     * (0 straight after playing it), or -1 if it has never been played —
+     * the same convention as Ink's TURNS_SINCE().
+     */
+    public getTurnsSincePlayed(knotID: string): number {
+        const last = this.getLastPlayedTurn(knotID);
+        return last === null ? -1 : this._turn - last;
+    }
+
+    /**
+     * Returns how many more picks or refreshes (depending on the storylet's
+     * `#cooldown:` unit) must happen before the storylet is available again.
+     * Returns 0 if it is not cooling down or is unknown.
+     */
+    public getCooldownRemaining(knotID: string): number {
+        return this.findStorylet(knotID)?.cooldownRemaining ?? 0;
     }
 
     // --- JS predicate registration ---
@@ -235,7 +1016,7 @@ export class StoryletManager {
      * If `pool` is provided only that pool is iterated; otherwise all pools are iterated.
      */
     public forEachStorylet(
-        callback: (knotID: string, tags: Record<string, any>) => void,
+        callback: (knotID: string, tags: TagValues<Tags> & Record<string, any>) => void,
         pool?: string
     ): void {
         const poolNames = pool !== undefined ? [pool] : Array.from(this._pools.keys());
@@ -250,9 +1031,10 @@ export class StoryletManager {
 
     /**
      * Attach a JS predicate function to a storylet. The predicate is called during
-     * getWeighting() after the played/once check but before the Ink predicate function.
-     * If it returns false or 0 the storylet is excluded from the hand; any positive
-     * number or true lets evaluation continue to the Ink predicate.
+     * getWeighting() after the played/once and cooldown checks but before the Ink predicate function.
+     * If it returns false or 0 the storylet is excluded from the hand. Otherwise evaluation
+     * continues to the Ink predicate, and a positive number multiplies the storylet's
+     * weight (true counts as 1).
      *
      * Pass null to remove a previously attached predicate.
      * Searches all pools (knotIDs are expected to be unique across pools).
@@ -265,21 +1047,46 @@ export class StoryletManager {
             const storylet = poolState.deck.get(knotID);
             if (storylet) {
                 storylet.fnPredicate = predicate;
+                storylet.predicateWeight = null;
                 return;
             }
         }
         console.warn(`[StoryletManager] setStoryletPredicate: knotID "${knotID}" not found`);
     }
 
+    /**
+     * Flag an Ink external function as changing game state. While predicateSandbox is on,
+     * predicates that call it get `stub` instead (called with the same arguments; its
+     * return value is what the predicate sees) — or, with no stub, the real function
+     * runs and each call is reported with predicateMutation.
+     *
+     *   manager.flagMutatingExternal('give_gold', () => 0);
+     */
+    public flagMutatingExternal(name: string, stub?: (...args: any[]) => any): void {
+        this._mutatingExternals.set(name, stub ?? null);
+    }
+
+    /** Remove a flag set by flagMutatingExternal(). */
+    public unflagMutatingExternal(name: string): void {
+        this._mutatingExternals.delete(name);
+    }
+
     // --- Tag queries ---
 
     /**
      * Returns the value of a named tag on a storylet knot, or defaultValue if absent.
      * Tag names are case-insensitive. Values are parsed at registration time:
+     *   - tags declared in the constructor's `tags` schema get their declared type,
+     *     and the return type follows it
      *   - "true"/"false" strings become booleans
      *   - bare tags (no colon) become true
      *   - everything else is returned as a trimmed string
      */
+    public getStoryletTag<K extends keyof Tags & string>(knotID: string, tagName: K): TagValue<Tags[K]> | null;
+    public getStoryletTag<K extends keyof Tags & string>(
+        knotID: string, tagName: K, defaultValue: TagValue<Tags[K]>
+    ): TagValue<Tags[K]>;
+    public getStoryletTag<T = any>(knotID: string, tagName: string, defaultValue?: any): T;
     public getStoryletTag(knotID: string, tagName: string, defaultValue: any = null): any {
         const tags = this._storyletTags.get(knotID);
         if (!tags) return defaultValue;
@@ -288,84 +1095,558 @@ export class StoryletManager {
     }
 
     /**
-     * Returns all playable storylets whose tag `tagName` equals `tagValue`.
+     * Returns all playable storylets whose tag `tagName` equals `tagValue` (or, for a
+     * list tag, contains it). `tagValue` may also be a TagCondition operator object,
+     * e.g. { gte: 3 } or { in: ['bar', 'cave'] }.
+     * If `pool` is provided only that pool is searched; otherwise all pools are searched.
+     */
+    public getPlayableStoryletsWithTag(tagName: string, tagValue: TagCondition, pool?: string): string[] {
+        return this.queryPlayableStorylets({ where: { [tagName]: tagValue } }, pool);
+    }
+
+    /**
+     * Returns the first playable storylet whose tag `tagName` matches `tagValue`, or null.
      * If `pool` is provided only that pool is searched; otherwise all pools are searched.
      */
-    public getPlayableStoryletsWithTag(tagName: string, tagValue: any, pool?: string): string[] {
+    public getFirstPlayableStoryletWithTag(tagName: string, tagValue: TagCondition, pool?: string): string | null {
+        return this.queryPlayableStorylets({ where: { [tagName]: tagValue }, limit: 1 }, pool)[0] ?? null;
+    }
+
+    /**
+     * Returns the playable storylets matching `query`: every `where` condition must hold,
+     * then results are sorted by `sortBy` and cut to `limit`. Unsorted results are in
+     * hand order, pool by pool.
+     *
+     *   manager.queryPlayableStorylets({
+     *       where: { loc: { in: ['bar', 'cave'] }, mood: { ne: 'sad' }, priority: { gte: 3 } },
+     *       sortBy: { tag: 'priority', order: 'desc' }
+     *   });
+     *
+     * If `pool` is provided only that pool is searched; otherwise all pools that have
+     * completed a refresh are searched. Throws on an unknown operator.
+     */
+    public queryPlayableStorylets(query: StoryletQuery, pool?: string): string[] {
         const poolNames = pool !== undefined ? [pool] : Array.from(this._pools.keys());
-        const result: string[] = [];
-        const key = tagName.toLowerCase();
+        const tagsOf = (knotID: string) => this._storyletTags.get(knotID) ?? {};
+        let result: string[] = [];
 
         for (const p of poolNames) {
             const poolState = this._pools.get(p);
             if (!poolState || poolState.state !== State.REFRESH_COMPLETE) continue;
-            for (const knotID of poolState.hand) {
-                const tags = this._storyletTags.get(knotID);
-                if (tags && tags[key] === tagValue) {
+            const positions = query.where ? lookupTagIndex(poolState.tagIndex, query.where) : null;
+            const entries = positions === null ? poolState.hand : positions.map(i => poolState.hand[i]);
+            for (const { knotID } of entries) {
+                if (!query.where || matchesTagQuery(tagsOf(knotID), query.where)) {
                     result.push(knotID);
                 }
             }
         }
+
+        if (query.sortBy !== undefined) sortByTags(result, tagsOf, query.sortBy);
+        if (query.limit !== undefined) result = result.slice(0, Math.max(0, query.limit));
         return result;
     }
 
-    /**
-     * Returns the first playable storylet whose tag `tagName` equals `tagValue`, or null.
-     * If `pool` is provided only that pool is searched; otherwise all pools are searched.
-     */
-    public getFirstPlayableStoryletWithTag(tagName: string, tagValue: any, pool?: string): string | null {
-        const matches = this.getPlayableStoryletsWithTag(tagName, tagValue, pool);
-        return matches.length > 0 ? matches[0] : null;
+    /** Returns the first storylet queryPlayableStorylets() would return, or null. */
+    public queryFirstPlayableStorylet(query: StoryletQuery, pool?: string): string | null {
+        return this.queryPlayableStorylets({ ...query, limit: 1 }, pool)[0] ?? null;
     }
 
-    // --- Reset ---
-
     /**
-     * Reset played state for a specific pool, or all pools if none specified.
+     * Group the playable storylets by the value of tag `tagName`, e.g.
+     * groupPlayableByTag('loc') → Map { 'bar' => [...], 'cave' => [...] }.
+     * A list tag puts the storylet under each of its values; storylets without the tag
+     * are left out. Storylets are in hand order, pool by pool.
+     * If `pool` is provided only that pool is grouped; otherwise all pools that have
+     * completed a refresh are.
+     */
+    public groupPlayableByTag(tagName: string, pool?: string): Map<any, string[]> {
+        const poolNames = pool !== undefined ? [pool] : Array.from(this._pools.keys());
+        const key = tagName.toLowerCase();
+        const groups = new Map<any, string[]>();
+
+        for (const p of poolNames) {
+            const poolState = this._pools.get(p);
+            if (!poolState || poolState.state !== State.REFRESH_COMPLETE) continue;
+            for (const [value, positions] of poolState.tagIndex.get(key) ?? []) {
+                const group = groups.get(value) ?? [];
+                for (const i of positions) group.push(poolState.hand[i].knotID);
+                groups.set(value, group);
+            }
+        }
+        return groups;
+    }
+
+    /**
+     * Tags whose values didn't match their declared type in the constructor's `tags`
+     * schema, one entry per knot and tag. Those tags are left unset.
+     */
+    public getTagErrors(): TagError[] {
+        return this._tagErrors.slice();
+    }
+
+    // --- Dependencies ---
+
+    /**
+     * What a storylet's predicates read when last evaluated (see incrementalRefresh),
+     * or null if it hasn't been evaluated by a refresh yet, was last evaluated with
+     * neither incrementalRefresh nor autoMarkNeedsRefresh on, or isn't registered.
+     * If `pool` is omitted the first pool containing the storylet is used.
+     */
+    public getStoryletDependencies(knotID: string, pool?: string): StoryletDependencies | null {
+        const storylet = pool !== undefined ? this._pools.get(pool)?.deck.get(knotID) : this.findStorylet(knotID);
+        const dependencies = storylet?.dependencies;
+        return dependencies ? { ...dependencies, variables: dependencies.variables.slice() } : null;
+    }
+
+    /**
+     * Forget the predicate results kept for incrementalRefresh, for one pool or all
+     * pools, so the next refresh evaluates every storylet. Call this after changing Ink
+     * state in a way variable observers don't see, e.g. story.state.LoadJson().
+     * (loadFromJson() and loadSnapshot() do this themselves.)
+     */
+    public invalidateStorylets(pool?: string): void {
+        const poolNames = pool !== undefined ? [pool] : Array.from(this._pools.keys());
+        for (const p of poolNames) {
+            for (const storylet of this._pools.get(p)?.deck.values() ?? []) storylet.predicateWeight = null;
+        }
+    }
+
+    // --- Diagnostics ---
+
+    /**
+     * Explain why a storylet is or isn't playable right now. Every gate is evaluated
+     * against the current state, in the order a refresh applies them — group
+     * predicate, played/once, cooldown, JS predicate, Ink predicate — and reported
+     * even after one has failed, so tooling and tests can see the whole picture.
+     *
+     * If `pool` is omitted the first pool containing the storylet is used.
+     * Returns null if the storylet is not registered.
+     */
+    public explainStorylet(knotID: string, pool?: string): StoryletExplanation | null {
+        const poolName = pool ?? Array.from(this._pools.keys()).find(p => this._pools.get(p)!.deck.has(knotID));
+        const poolState = poolName !== undefined ? this._pools.get(poolName) : undefined;
+        const storylet = poolState?.deck.get(knotID);
+        if (!poolName || !poolState || !storylet) {
+            console.warn(`[StoryletManager] explainStorylet: knotID "${knotID}" not found`);
+            return null;
+        }
+
+        const gates: StoryletGate[] = [];
+
+        if (storylet.groupPredicates.length > 0) {
+            // Outermost first, stopping at the first inactive group, as a refresh does.
+            const details: string[] = [];
+            let active = true;
+            let value: any = null;
+            for (const gp of storylet.groupPredicates) {
+                const group = tryPredicate(this._story, this.sandboxed(poolName, gp, gp, () => this._story.EvaluateFunction(gp)));
+                active = 'error' in group ? this.predicateErrorPolicy === 'include' : isGroupActive(group.value);
+                value = 'error' in group ? group.error : group.value;
+                details.push('error' in group ? `${gp}() threw: ${errorMessage(group.error)}` : `${gp}() returned ${group.value}`);
+                if (!active) break;
+            }
+            gates.push({ gate: 'group', passed: active, value, detail: details.join('; ') });
+        } else {
+            gates.push({ gate: 'group', passed: true, value: null, detail: 'No group predicate' });
+        }
+
+        const onceBlocked = storylet.once && storylet.playCount > 0;
+        gates.push({ gate: 'once', passed: !onceBlocked, value: storylet.playCount,
+            detail: storylet.once ? `#once, played ${storylet.playCount} time(s)` : 'Not #once' });
+
+        gates.push({ gate: 'cooldown', passed: storylet.cooldownRemaining === 0, value: storylet.cooldownRemaining,
+            detail: storylet.cooldown
+                ? `${storylet.cooldownRemaining} of ${storylet.cooldown.count} ${storylet.cooldown.unit} remaining`
+                : 'No cooldown' });
+
+        // A predicate that throws is explained as the error policy would treat it.
+        const errorWeight = this.predicateErrorPolicy === 'include' ? 1 : 0;
+
+        let jsWeight = 1;
+        const fnPredicate = storylet.fnPredicate;
+        if (fnPredicate !== null) {
+            const js = tryPredicate(this._story, this.sandboxed(poolName, knotID, null, () => fnPredicate(knotID)));
+            jsWeight = 'error' in js ? errorWeight : predicateValueToWeight(js.value);
+            gates.push({ gate: 'jsPredicate', passed: jsWeight > 0, value: 'error' in js ? js.error : js.value,
+                detail: 'error' in js ? `JS predicate threw: ${errorMessage(js.error)}` : `JS predicate returned ${js.value}` });
+        } else {
+            gates.push({ gate: 'jsPredicate', passed: true, value: null, detail: 'No JS predicate' });
+        }
+
+        let inkWeight = 1;
+        const inkPredicate = storylet.inkPredicate;
+        if (inkPredicate !== null) {
+            const ink = tryPredicate(this._story, this.sandboxed(poolName, knotID, inkPredicate, () => this._story.EvaluateFunction(inkPredicate)));
+            inkWeight = 'error' in ink ? errorWeight : predicateValueToWeight(ink.value);
+            gates.push({ gate: 'inkPredicate', passed: inkWeight > 0, value: 'error' in ink ? ink.error : ink.value,
+                detail: 'error' in ink ? `${inkPredicate}() threw: ${errorMessage(ink.error)}` : `${inkPredicate}() returned ${ink.value}` });
+        } else {
+            gates.push({ gate: 'inkPredicate', passed: true, value: null, detail: `_${knotID}() missing — always available` });
+        }
+
+        const blocked = gates.find(g => !g.passed);
+        const weight = storylet.weightModifier * jsWeight * inkWeight;
+        return {
+            knotID,
+            pool: poolName,
+            gates,
+            blockedBy: blocked ? blocked.gate : null,
+            weight: blocked || !(weight > 0) ? 0 : weight,
+            weightFactors: { tag: storylet.weightModifier, js: jsWeight, ink: inkWeight },
+            inHand: poolState.state === State.REFRESH_COMPLETE ? poolState.hand.some(e => e.knotID === knotID) : null
+        };
+    }
+
+    // --- Reset ---
+
+    /**
+     * Reset played state for a specific pool, or all pools if none specified.
      * The pool's hand is cleared and state returns to NEEDS_REFRESH.
+     * Resetting all pools also resets the turn counter. Pending storylets picked from
+     * the pool (or all of them, for a full reset) are abandoned.
      */
     public reset(pool?: string): void {
+        for (const pending of Array.from(this._pending)) {
+            if (pool === undefined || pending.pool === pool) pending.abandon();
+        }
         if (pool !== undefined) {
             const poolState = this._pools.get(pool);
-            if (poolState) resetPoolState(poolState);
+            if (poolState) {
+                resetPoolState(poolState);
+                this._events.emit('poolReset', { pool });
+            }
         } else {
-            for (const poolState of this._pools.values()) {
+            for (const [poolName, poolState] of this._pools) {
                 resetPoolState(poolState);
+                this._events.emit('poolReset', { pool: poolName });
             }
+            this._turn = 0;
         }
+        this.invalidatePlayHistory();
     }
 
     // --- Save / Load ---
 
     /**
-     * Returns a JSON string encoding the played state of all pools.
-     * Format: { "poolName": [["knotID", played], ...], ... }
+     * Returns a versioned JSON string (see SaveData) encoding, for every pool, each
+     * storylet's play count, last-played turn and remaining cooldown plus the pool's
+     * current hand; and the turn counter and random source state.
      * Save the Ink story state separately via story.state.ToJson().
      */
     public saveAsJson(): string {
-        const data: Record<string, [string, boolean][]> = {};
+        return JSON.stringify(this.buildSaveData());
+    }
+
+    private buildSaveData(): SaveData {
+        const pools: Record<string, SavedPool> = {};
         for (const [poolName, poolState] of this._pools) {
-            data[poolName] = [];
-            for (const s of poolState.deck.values()) {
-                data[poolName].push([s.knotID, s.played]);
+            const storylets = Array.from(poolState.deck.values(), s => ({
+                id: s.knotID,
+                count: s.playCount,
+                last: s.lastPlayedTurn,
+                cooldown: s.cooldownRemaining
+            }));
+
+            let hand: [string, number][] | null = null;
+            if (poolState.state === State.REFRESH_COMPLETE) {
+                hand = poolState.hand.map(e => [e.knotID, e.weight]);
             }
+            const selection = poolState.strategy?.getState?.();
+            pools[poolName] = selection === undefined ? { storylets, hand } : { storylets, hand, selection };
         }
-        return JSON.stringify(data);
+
+        return { version: SAVE_VERSION, turn: this._turn, rng: this.random.getState(), pools };
+    }
+
+    /**
+     * Restore state from a saveAsJson() string. Saves from older versions are upgraded.
+     *
+     * Saved storylets are first passed through `options.migrate` (if given) so renamed
+     * knots keep their history. Saved hands are restored unless `options.restoreHands`
+     * is false, leaving those pools ready without a refresh; pools without a usable
+     * hand need a refresh as usual.
+     *
+     * Returns a report of anything that could not be matched to the current content
+     * instead of silently dropping it. Throws if the save is from a newer version.
+     */
+    public loadFromJson(json: string, options: LoadOptions = {}): LoadReport {
+        return this.applySaveData(upgradeSaveData(JSON.parse(json)), options);
     }
 
-    /** Restore played state from a saveAsJson() string. */
-    public loadFromJson(json: string): void {
+    private applySaveData(data: SaveData, options: LoadOptions): LoadReport {
         this.reset();
-        const data: Record<string, [string, boolean][]> = JSON.parse(json);
-        for (const [poolName, entries] of Object.entries(data)) {
+        const report = this.restoreSaveData(data, options);
+        this._events.emit('stateLoaded', { report });
+        return report;
+    }
+
+    /**
+     * Put saved state in place over reset pools, without abandoning pending picks or
+     * emitting events.
+     */
+    private restoreSaveData(data: SaveData, options: LoadOptions): LoadReport {
+        const { migrate, restoreHands = true } = options;
+        this.invalidateStorylets();
+        const report: LoadReport = {
+            version: data.version,
+            renamed: [],
+            removed: [],
+            orphaned: [],
+            unknownPools: [],
+            unsaved: [],
+            restoredHands: []
+        };
+
+        const restored = new Set<Storylet>();
+
+        for (const [poolName, savedPool] of Object.entries(data.pools)) {
             const poolState = this._pools.get(poolName);
-            if (poolState) {
-                for (const [knotID, played] of entries) {
-                    const s = poolState.deck.get(knotID);
-                    if (s) s.played = played;
+            if (!poolState) report.unknownPools.push(poolName);
+
+            const renames = new Map<string, string>();
+            for (const saved of savedPool.storylets) {
+                const migrated = migrate ? migrate(saved.id, poolName, data.version) : undefined;
+                if (migrated === null) {
+                    report.removed.push({ knotID: saved.id, pool: poolName });
+                    continue;
+                }
+                const knotID = migrated ?? saved.id;
+                if (knotID !== saved.id) {
+                    renames.set(saved.id, knotID);
+                    report.renamed.push({ from: saved.id, to: knotID, pool: poolName });
+                }
+
+                // Prefer the saved pool, but follow knots that have moved to another pool.
+                const s = poolState?.deck.get(knotID) ?? this.findStorylet(knotID);
+                if (!s) {
+                    report.orphaned.push({ knotID: saved.id, pool: poolName });
+                    continue;
+                }
+                s.playCount = saved.count;
+                s.lastPlayedTurn = saved.last;
+                s.cooldownRemaining = saved.cooldown;
+                restored.add(s);
+            }
+
+            if (poolState && savedPool.selection !== undefined) poolState.strategy?.setState?.(savedPool.selection);
+
+            if (restoreHands && poolState && savedPool.hand) {
+                const hand = savedPool.hand.map(([id, w]): [string, number] => [renames.get(id) ?? id, w]);
+                if (hand.every(([id]) => poolState.deck.has(id))) {
+                    clearHand(poolState);
+                    for (const [knotID, weight] of hand) {
+                        addToHand(poolState, { knotID, weight }, this._storyletTags.get(knotID));
+                    }
+                    poolState.state = State.REFRESH_COMPLETE;
+                    report.restoredHands.push(poolName);
                 }
             }
         }
+
+        for (const [poolName, poolState] of this._pools) {
+            for (const s of poolState.deck.values()) {
+                if (!restored.has(s)) report.unsaved.push({ knotID: s.knotID, pool: poolName });
+            }
+        }
+
+        this._turn = data.turn;
+        if (data.rng !== undefined) this.random.setState(data.rng);
+        return report;
+    }
+
+    /**
+     * Returns a JSON string holding both the Ink story state and the storylet state,
+     * so the two can never get out of sync. The document also records a hash of the
+     * compiled Ink content (see getContentHash()) to validate against on load.
+     */
+    public saveSnapshot(): string {
+        const data: SnapshotData = {
+            snapshotVersion: SNAPSHOT_VERSION,
+            contentHash: this.getContentHash(),
+            ink: JSON.parse(this._story.state.ToJson()),
+            storylets: this.buildSaveData()
+        };
+        return JSON.stringify(data);
+    }
+
+    /**
+     * Restore the Ink story state and the storylet state from a saveSnapshot() string,
+     * then start a refresh of all pools (unless `options.refresh` is false — in which
+     * case saved hands are restored as with loadFromJson()). Drive tick() as usual.
+     *
+     * Loading is all-or-nothing: the snapshot is validated first, and if anything
+     * fails part-way both the Ink and storylet state are put back as they were; pending
+     * picks are left alone and no events are emitted. Once loaded, pending picks are
+     * abandoned and poolReset and stateLoaded are emitted, as with loadFromJson().
+     * Throws if the snapshot was taken with different Ink content, unless
+     * `options.allowContentMismatch` is set.
+     */
+    public loadSnapshot(json: string, options: SnapshotLoadOptions = {}): LoadReport {
+        const { allowContentMismatch = false, refresh = true } = options;
+        const snapshot: SnapshotData = JSON.parse(json);
+
+        if (typeof snapshot.snapshotVersion !== 'number' || snapshot.snapshotVersion > SNAPSHOT_VERSION) {
+            throw new Error(`[StoryletManager] Unsupported snapshot version: ${snapshot.snapshotVersion}`);
+        }
+        const contentHash = this.getContentHash();
+        if (snapshot.contentHash !== contentHash && !allowContentMismatch) {
+            throw new Error(`[StoryletManager] Snapshot was saved with different Ink content (hash ${snapshot.contentHash}, current ${contentHash})`);
+        }
+        const data = upgradeSaveData(snapshot.storylets);
+
+        // Load without telling anyone, so a failure can be undone as if it never happened.
+        const inkBackup = this._story.state.ToJson();
+        const rollback = this.backupPools();
+        let report: LoadReport;
+        try {
+            this._story.state.LoadJson(JSON.stringify(snapshot.ink));
+            for (const poolState of this._pools.values()) resetPoolState(poolState);
+            this._turn = 0;
+            this.invalidatePlayHistory();
+            report = this.restoreSaveData(data, { ...options, restoreHands: options.restoreHands ?? !refresh });
+        } catch (e) {
+            this._story.state.LoadJson(inkBackup);
+            rollback();
+            throw e;
+        }
+
+        // It worked: settle pending picks and emit events as reset() and loadFromJson() do.
+        // The strategies now hold the loaded state, which the old picks aren't part of.
+        for (const pending of Array.from(this._pending)) {
+            pending.strategy = null;
+            pending.abandon();
+        }
+        for (const pool of this._pools.keys()) this._events.emit('poolReset', { pool });
+        this._events.emit('stateLoaded', { report });
+
+        if (refresh) this.refresh();
+        return report;
+    }
+
+    /**
+     * Record the played state, hands and refresh progress of every pool, the turn counter
+     * and the random source state. Returns a function that puts them back.
+     */
+    private backupPools(): () => void {
+        const turn = this._turn;
+        const rng = this.random.getState();
+        const pools = Array.from(this._pools.values(), poolState => ({
+            poolState,
+            fields: {
+                refreshList: poolState.refreshList.slice(),
+                hand: poolState.hand.slice(),
+                tagIndex: poolState.tagIndex,
+                state: poolState.state,
+                refreshTotal: poolState.refreshTotal,
+                refreshStartTime: poolState.refreshStartTime,
+                refreshEndTime: poolState.refreshEndTime
+            },
+            storylets: Array.from(poolState.deck.values(), s => ({
+                storylet: s, playCount: s.playCount, lastPlayedTurn: s.lastPlayedTurn, cooldownRemaining: s.cooldownRemaining
+            })),
+            selection: poolState.strategy?.getState?.()
+        }));
+
+        return () => {
+            for (const { poolState, fields, storylets, selection } of pools) {
+                Object.assign(poolState, fields);
+                for (const { storylet, ...played } of storylets) Object.assign(storylet, played);
+                if (selection !== undefined) poolState.strategy?.setState?.(selection);
+            }
+            this._turn = turn;
+            this.random.setState(rng);
+            this.invalidatePlayHistory();
+        };
+    }
+
+    /**
+     * Returns a hash of the compiled Ink content this manager is bound to, used by
+     * saveSnapshot()/loadSnapshot() to detect snapshots from different content.
+     */
+    public getContentHash(): string {
+        if (this._contentHash === null) {
+            this._contentHash = hashString(String(this._story.ToJson()));
+        }
+        return this._contentHash;
+    }
+
+    // --- Hot reload ---
+
+    /**
+     * Switch to a new Story — typically the same Ink recompiled — without losing storylet
+     * state. Pools are rediscovered from the new story's `#storylets:` tags and by
+     * repeating the registrations made in code (addStorylets() and friends). Storylets
+     * whose knots still exist keep their played state and JS predicate; the rest are
+     * removed, as are pools nothing registers into any more. Tag registrations undone by
+     * removeStorylets() or removePool() are skipped.
+     *
+     * Pending picks are abandoned and refreshes in progress cancelled. By default the old
+     * story's Ink state is carried over and every pool is refreshed afterwards; external
+     * functions must be bound on the new story first, unless `keepExternals` is set (see
+     * ReplaceStoryOptions). Emits storyReplaced.
+     */
+    public replaceStory(story: Story, options: ReplaceStoryOptions = {}): ReplaceStoryReport {
+        const { keepInkState = true, keepExternals = false, refresh = true } = options;
+        const oldStory = this._story;
+
+        for (const pending of Array.from(this._pending)) pending.abandon();
+        this.cancelRefresh();
+
+        let inkStateKept = false;
+        if (keepInkState) {
+            try {
+                story.state.LoadJson(oldStory.state.ToJson());
+                inkStateKept = true;
+            } catch (e) {
+                console.warn('[StoryletManager] replaceStory: could not load the old Ink state into the new story; starting fresh:', e);
+                story.ResetState();
+            }
+        }
+
+        oldStory.RemoveVariableObserver(this._variableObserver);
+        this._observedVariables.clear();
+        this._dependents.clear();
+        this._story = story;
+        this._contentHash = null;
+        this.bindInkFunctions();
+        if (keepExternals) copyExternalBindings(oldStory, story);
+
+        const before = new Map(Array.from(this._pools, ([pool, poolState]) => [pool, new Set(poolState.deck.keys())]));
+        const registered = new Map<string, Set<string>>();
+        const allKnotIDs = getAllKnotIDs(story);
+        const tagRegistrations = globalTagRegistrations(story)
+            .filter(r => !this._removedTagRegistrations.has(tagRegistrationKey(r)));
+        for (const registration of [...tagRegistrations, ...this._registrations]) {
+            let knotIDs = registered.get(registration.pool);
+            if (!knotIDs) registered.set(registration.pool, knotIDs = new Set());
+            for (const knotID of this.applyRegistration(registration, allKnotIDs)) knotIDs.add(knotID);
+        }
+
+        const report: ReplaceStoryReport = { added: {}, removed: {}, removedPools: [], inkStateKept };
+        for (const [pool, poolState] of Array.from(this._pools)) {
+            const previous = before.get(pool) ?? new Set<string>();
+            const current = registered.get(pool);
+            const added = current ? Array.from(current).filter(k => !previous.has(k)) : [];
+            const removed = Array.from(previous).filter(k => !current?.has(k));
+            if (added.length > 0) report.added[pool] = added;
+            if (removed.length > 0) report.removed[pool] = removed;
+
+            if (!current && previous.size > 0) {
+                report.removedPools.push(pool);
+                this.removePool(pool);
+                continue;
+            }
+            for (const knotID of removed) poolState.deck.delete(knotID);
+            this.dropRemoved(removed, pool);
+            this.syncWithDeck(poolState);
+        }
+
+        const count = (byPool: Record<string, string[]>) => Object.values(byPool).reduce((n, k) => n + k.length, 0);
+        console.log(`[StoryletManager] Replaced story: ${count(report.added)} storylets added, ${count(report.removed)} removed`);
+        this._events.emit('storyReplaced', { report });
+        if (refresh && this._pools.size > 0) this.refresh();
+        return report;
     }
 
     // --- Private ---
@@ -376,127 +1657,465 @@ export class StoryletManager {
                 deck: new Map(),
                 refreshList: [],
                 hand: [],
-                handWeighted: [],
-                state: State.NEEDS_REFRESH
+                tagIndex: new Map(),
+                groupVariables: new Set(),
+                state: State.NEEDS_REFRESH,
+                strategy: null,
+                priority: 0,
+                refreshTotal: 0,
+                refreshStartTime: null,
+                refreshEndTime: null
             });
         }
         return this._pools.get(pool)!;
     }
 
+    /** Register storylets as `registration` says, and remember it for replaceStory(). */
+    private register(registration: Registration): void {
+        const { kind, name, pool } = registration;
+        this._registrations = this._registrations
+            .filter(r => r.kind !== kind || r.name !== name || r.pool !== pool)
+            .concat(registration);
+        this.applyRegistration(registration, getAllKnotIDs(this._story));
+    }
+
+    /** Register the storylets `registration` finds among `allKnotIDs`. Returns their knotIDs. */
+    private applyRegistration(registration: Registration, allKnotIDs: string[]): string[] {
+        const { kind, name, pool } = registration;
+        const functions = new Set(allKnotIDs);
+        if (kind === 'knot') {
+            // After replaceStory() the knot may be gone.
+            return functions.has(name) ? this.registerStorylets(name, [name], () => [], functions, pool) : [];
+        }
+        // Group predicates are optional — only used if the functions exist
+        const { knotIDs, groupPredicate } = findStoryletGroup(allKnotIDs, name, registration.match);
+        const groupPredicatesOf = kind === 'prefix'
+            ? (knotID: string) => findGroupPredicates(knotID, name, functions)
+            : () => groupPredicate ? [groupPredicate] : [];
+        return this.registerStorylets(name, knotIDs, groupPredicatesOf, functions, pool);
+    }
+
+    /**
+     * Register `knotIDs` into `pool` under `name`. Storylets already in the pool are
+     * replaced, keeping their played state and JS predicate.
+     */
+    private registerStorylets(
+        name: string,
+        knotIDs: string[],
+        groupPredicatesOf: (knotID: string) => string[],
+        functions: ReadonlySet<string>,
+        pool: string
+    ): string[] {
+        const poolState = this.getOrCreatePoolState(pool);
+        const discovered: string[] = [];
+
+        for (const knotID of knotIDs) {
+            // Read and cache all tags for this storylet
+            const { tags, errors } = parseTypedTags(getKnotTags(this._story, knotID), this._tagSchema, knotID);
+            this._storyletTags.set(knotID, tags);
+            this._tagErrors = this._tagErrors.filter(e => e.knotID !== knotID).concat(errors);
+            for (const error of errors) console.warn(`[StoryletManager] ${knotID}: ${error.message}`);
+
+            const storylet = new Storylet(knotID);
+            storylet.registeredAs = name;
+            storylet.once = tags['once'] === true;
+            if (typeof tags['cooldown'] === 'object') storylet.cooldown = tags['cooldown'];
+            if (typeof tags['weight'] === 'number') storylet.weightModifier = tags['weight'];
+            storylet.groupPredicates = groupPredicatesOf(knotID);
+            // Predicate is optional — without one the storylet is always available
+            if (functions.has('_' + knotID)) storylet.inkPredicate = '_' + knotID;
+
+            const previous = poolState.deck.get(knotID);
+            if (previous) {
+                this.setDependencies(previous, null);
+                storylet.playCount = previous.playCount;
+                storylet.lastPlayedTurn = previous.lastPlayedTurn;
+                storylet.cooldownRemaining = previous.cooldownRemaining;
+                storylet.fnPredicate = previous.fnPredicate;
+            }
+            poolState.deck.set(knotID, storylet);
+            discovered.push(knotID);
+        }
+        this.syncWithDeck(poolState);
+
+        console.log(`[StoryletManager] Discovered ${discovered.length} storylets for pool "${pool}" (name="${name}"):`, discovered);
+        return discovered;
+    }
+
+    /**
+     * After storylets were replaced or removed: point a refresh in progress at the
+     * pool's current storylets, and drop removed storylets from it and from the hand.
+     */
+    private syncWithDeck(poolState: PoolState): void {
+        const list = poolState.refreshList.flatMap(s => poolState.deck.get(s.knotID) ?? []);
+        poolState.refreshTotal -= poolState.refreshList.length - list.length;
+        poolState.refreshList = list;
+
+        const hand = poolState.hand.filter(e => poolState.deck.has(e.knotID));
+        if (hand.length === poolState.hand.length) return;
+        clearHand(poolState);
+        for (const candidate of hand) addToHand(poolState, candidate, this._storyletTags.get(candidate.knotID));
+    }
+
+    /** Abandon pending picks of storylets removed from `pool`, and forget tags no pool uses now. */
+    private dropRemoved(knotIDs: string[], pool: string): void {
+        const removed = new Set(knotIDs);
+        for (const pending of Array.from(this._pending)) {
+            if (pending.pool === pool && removed.has(pending.knotID)) pending.abandon();
+        }
+        for (const knotID of removed) {
+            if (this.findStorylet(knotID)) continue;
+            this._storyletTags.delete(knotID);
+            this._tagErrors = this._tagErrors.filter(e => e.knotID !== knotID);
+        }
+    }
+
+    /**
+     * Evaluate the next storylet in a refreshing pool's list, adding it to the hand if
+     * playable. Returns false if a cached result was reused instead of evaluating.
+     */
+    private evaluateNext(poolName: string, poolState: PoolState): boolean {
+        const storylet = poolState.refreshList.shift()!;
+        const evaluated = !this.incrementalRefresh || storylet.predicateWeight === null;
+        let w: number;
+        try {
+            w = this.getWeighting(storylet, poolName);
+        } catch (error) {
+            this.cancelRefresh(poolName);
+            this._events.emit('refreshFailed', { pool: poolName, knotID: storylet.knotID, error });
+            throw error;
+        }
+        // The refresh may have been cancelled while the predicate ran (see refreshAsync()).
+        if (w > 0 && poolState.state === State.REFRESHING) {
+            addToHand(poolState, { knotID: storylet.knotID, weight: w }, this._storyletTags.get(storylet.knotID));
+        }
+        return evaluated;
+    }
+
+    /** Complete a refreshing pool whose list is exhausted. Returns true if it completed. */
+    private completeIfDone(poolName: string, poolState: PoolState, progressed: Set<string>): boolean {
+        if (poolState.state !== State.REFRESHING || poolState.refreshList.length > 0) return false;
+        tickCooldowns(poolState, 'refreshes');
+        poolState.state = State.REFRESH_COMPLETE;
+        poolState.refreshEndTime = this.clock();
+        if (progressed.delete(poolName)) this.emitProgress(poolName);
+        this._events.emit('refreshComplete', { pool: poolName });
+        return true;
+    }
+
+    private emitProgress(poolName: string): void {
+        const progress = this.getRefreshProgress(poolName)!;
+        this._events.emit('refreshProgress', { pool: poolName, progress, overall: this.getRefreshProgress()! });
+    }
+
+    private startRefresh(poolName: string, poolState: PoolState): void {
+        clearHand(poolState);
+        poolState.refreshList = this.buildRefreshList(poolName, poolState);
+        poolState.state = State.REFRESHING;
+        poolState.refreshTotal = poolState.refreshList.length;
+        poolState.refreshStartTime = this.clock();
+        poolState.refreshEndTime = null;
+        this._events.emit('refreshStarted', { pool: poolName });
+    }
+
+    private pickPending(caller: string, pool: string, strategy?: SelectionStrategy): PendingPick | null {
+        const knotID = this.selectStorylet(caller, pool, strategy);
+        if (knotID === null) return null;
+
+        this._events.emit('storyletPicked', { knotID, pool });
+        return this.createPending(knotID, pool, this.strategyFor(pool, strategy));
+    }
+
+    private createPending(knotID: string, pool: string | null, strategy: SelectionStrategy | null): PendingPick {
+        const pending = new PendingPick(knotID, pool, strategy, settled => {
+            this._pending.delete(settled);
+            if (settled.status === 'committed') {
+                this.markPlayed(knotID, pool ?? undefined);
+            } else {
+                settled.strategy?.abandoned?.(knotID);
+                this._events.emit('storyletAbandoned', { knotID, pool });
+            }
+        });
+        this._pending.add(pending);
+        return pending;
+    }
+
+    private selectStorylet(caller: string, pool: string, strategy?: SelectionStrategy): string | null {
+        const poolState = this._pools.get(pool);
+        if (!poolState || poolState.state !== State.REFRESH_COMPLETE) {
+            console.error(`Don't call ${caller} until refresh is complete for pool "${pool}"!`);
+            return null;
+        }
+
+        const candidates = poolState.hand.map(e => ({ ...e }));
+        if (candidates.length === 0) return null;
+
+        return this.strategyFor(pool, strategy).select({ pool, candidates, random: this.random, manager: this });
+    }
+
+    private strategyFor(pool: string, strategy?: SelectionStrategy): SelectionStrategy {
+        return strategy ?? this._pools.get(pool)?.strategy ?? this._defaultStrategy;
+    }
+
+    private findStorylet(knotID: string): Storylet | null {
+        for (const poolState of this._pools.values()) {
+            const s = poolState.deck.get(knotID);
+            if (s) return s;
+        }
+        return null;
+    }
+
     private getPoolState(pool: string): PoolState {
         return this._pools.get(pool) ?? {
             deck: new Map(),
             refreshList: [],
             hand: [],
-            handWeighted: [],
-            state: State.NEEDS_REFRESH
+            tagIndex: new Map(),
+            groupVariables: new Set(),
+            state: State.NEEDS_REFRESH,
+            strategy: null,
+            priority: 0,
+            refreshTotal: 0,
+            refreshStartTime: null,
+            refreshEndTime: null
         };
     }
 
     /**
      * Evaluate group predicates (on the main thread, where external functions are bound),
      * then return the subset of the pool's deck that should be evaluated this refresh.
+     * Each storylet's group predicates are checked outermost first, so an inactive group
+     * skips its subgroups without evaluating them; each is evaluated at most once.
      */
-    private buildRefreshList(poolState: PoolState): Storylet[] {
+    private buildRefreshList(poolName: string, poolState: PoolState): Storylet[] {
         // Collect unique group predicates for this pool
         const groupResults: Record<string, boolean> = {};
-        for (const storylet of poolState.deck.values()) {
-            const gp = storylet.groupPredicate;
-            if (gp && !(gp in groupResults)) {
-                let active = true;
-                try {
-                    const retVal = this._story.EvaluateFunction(gp);
-                    if (typeof retVal === 'boolean') active = retVal;
-                    else if (typeof retVal === 'number') active = retVal > 0;
-                } catch (_e) {
-                    active = true; // Missing function → group always active
-                }
-                groupResults[gp] = active;
-            }
-        }
-
+        poolState.groupVariables = new Set();
         const list: Storylet[] = [];
         for (const storylet of poolState.deck.values()) {
-            const gp = storylet.groupPredicate;
-            if (gp && gp in groupResults && !groupResults[gp]) continue;
-            list.push(storylet);
+            const active = storylet.groupPredicates.every(gp =>
+                groupResults[gp] ??= this.evaluateGroup(poolName, poolState, gp));
+            if (active) list.push(storylet);
         }
         return list;
     }
 
-    private getWeighting(storylet: Storylet): number {
-        if (storylet.played && storylet.once) return 0;
+    /** Evaluate a group predicate for buildRefreshList(), recording the variables it read. */
+    private evaluateGroup(poolName: string, poolState: PoolState, gp: string): boolean {
+        const evaluate = () => this.runPredicate(poolName, gp, gp, () => this._story.EvaluateFunction(gp));
+        let tracked;
+        try {
+            tracked = this.tracksReads()
+                ? trackReads(this._story, HISTORY_FUNCTIONS, evaluate)
+                : { result: evaluate(), dependencies: null };
+        } catch (error) {
+            // predicateErrorPolicy 'rethrow': the refresh never starts.
+            poolState.state = State.NEEDS_REFRESH;
+            clearRefreshProgress(poolState);
+            this._events.emit('refreshFailed', { pool: poolName, knotID: gp, error });
+            throw error;
+        }
+        const { result: group, dependencies } = tracked;
+        for (const variable of dependencies?.variables ?? []) {
+            poolState.groupVariables.add(variable);
+            this.observeVariable(variable);
+        }
+        return 'error' in group ? group.substitute : isGroupActive(group.value);
+    }
 
-        if (storylet.fnPredicate !== null) {
-            const jsResult = storylet.fnPredicate(storylet.knotID);
-            if (typeof jsResult === 'boolean') { if (!jsResult) return 0; }
-            else if (typeof jsResult === 'number') { if (jsResult <= 0) return 0; }
-            else return 0;
+    /**
+     * The storylet's weight for this refresh: its `#weight` tag, times the JS predicate
+     * result, times the Ink predicate result. 0 means it is not playable.
+     * With incrementalRefresh on, the predicates' last result is reused if still valid.
+     */
+    private getWeighting(storylet: Storylet, pool: string): number {
+        if (storylet.playCount > 0 && storylet.once) return 0;
+        if (storylet.cooldownRemaining > 0) return 0;
+
+        let predicateWeight = this.incrementalRefresh ? storylet.predicateWeight : null;
+        if (predicateWeight === null && !this.tracksReads()) {
+            // Nothing uses what the predicates read, so don't pay for recording it.
+            this.setDependencies(storylet, null);
+            storylet.predicateWeight = null;
+            predicateWeight = this.evaluatePredicates(storylet, pool).weight;
+        } else if (predicateWeight === null) {
+            const { result, dependencies } = trackReads(this._story, HISTORY_FUNCTIONS, () => this.evaluatePredicates(storylet, pool));
+            // JS predicates can't be tracked, and a predicate that threw should be retried.
+            if (storylet.fnPredicate !== null || result.failed) dependencies.volatile = true;
+            this.setDependencies(storylet, dependencies);
+            storylet.predicateWeight = dependencies.volatile ? null : result.weight;
+            predicateWeight = result.weight;
         }
 
-        let retVal;
-        try {
-            retVal = this._story.EvaluateFunction('_' + storylet.knotID);
-        } catch (_e) {
-            return 1; // Missing predicate → always available
+        const weight = storylet.weightModifier * predicateWeight;
+        return weight > 0 ? weight : 0;
+    }
+
+    /** The JS predicate result times the Ink predicate result. */
+    private evaluatePredicates(storylet: Storylet, pool: string): { weight: number; failed: boolean } {
+        let weight = 1;
+        let failed = false;
+
+        const fnPredicate = storylet.fnPredicate;
+        if (fnPredicate !== null) {
+            const js = this.runPredicate(pool, storylet.knotID, null, () => fnPredicate(storylet.knotID));
+            if ('error' in js) failed = true;
+            const jsWeight = 'error' in js ? Number(js.substitute) : predicateValueToWeight(js.value);
+            if (jsWeight <= 0) return { weight: 0, failed };
+            weight *= jsWeight;
         }
 
-        if (typeof retVal === 'boolean') return retVal ? 1 : 0;
-        if (typeof retVal === 'number') return Math.floor(retVal);
-        return 0;
+        const inkPredicate = storylet.inkPredicate;
+        if (inkPredicate !== null) {
+            const ink = this.runPredicate(pool, storylet.knotID, inkPredicate, () => this._story.EvaluateFunction(inkPredicate));
+            if ('error' in ink) failed = true;
+            weight *= 'error' in ink ? Number(ink.substitute) : predicateValueToWeight(ink.value);
+        }
+        return { weight, failed };
     }
 
     /**
-     * Parse #storylets: global tags and call addStorylets() for each.
-     * Tag format: #storylets:name  or  #storylets:name,poolName
+     * Run a predicate, applying predicateErrorPolicy if it throws: returns its value, or
+     * the error and whether the policy treats the storylet (or group) as available.
+     * With 'rethrow' the error propagates.
      */
-    private addStoryletsFromGlobalTags(): void {
-        const tags = this._story.globalTags;
-        if (!tags) return;
-        for (const tag of tags) {
-            if (!tag.startsWith('storylets:')) continue;
-            const parts = tag.slice('storylets:'.length).split(',');
-            const name = parts[0].trim();
-            const pool = parts.length > 1 ? parts[1].trim() : DEFAULT_POOL;
-            if (name) this.addStorylets(name, pool);
+    private runPredicate(
+        pool: string,
+        knotID: string,
+        predicate: string | null,
+        evaluate: () => any
+    ): { value: any } | { error: unknown; substitute: boolean } {
+        const result = tryPredicate(this._story, this.sandboxed(pool, knotID, predicate, evaluate));
+        if (!('error' in result)) return result;
+
+        const { error } = result;
+        for (const watcher of this._predicateErrorWatchers) watcher(pool, error);
+        const name = predicate !== null ? `${predicate}()` : `JS predicate for "${knotID}"`;
+        switch (this.predicateErrorPolicy) {
+            case 'rethrow':
+                throw error;
+            case 'report':
+                this._events.emit('predicateError', { pool, knotID, predicate, error });
+                return { error, substitute: false };
+            case 'include':
+                console.error(`[StoryletManager] ${name} threw; treating as available:`, error);
+                return { error, substitute: true };
+            default:
+                console.error(`[StoryletManager] ${name} threw; treating as unavailable:`, error);
+                return { error, substitute: false };
+        }
+    }
+
+    /** `evaluate` run in the predicate sandbox, or as-is if predicateSandbox is 'off'. */
+    private sandboxed(pool: string, knotID: string, predicate: string | null, evaluate: () => any): () => any {
+        if (this.predicateSandbox === 'off') return evaluate;
+        const restore = this.predicateSandbox === 'restore';
+        return () => sandboxPredicate(this._story, restore, this._mutatingExternals, evaluate, mutations => {
+            const name = predicate !== null ? `${predicate}()` : `JS predicate for "${knotID}"`;
+            console.warn(`[StoryletManager] ${name} changed Ink state${restore ? ' (assignments undone)' : ''}:`, mutations);
+            this._events.emit('predicateMutation', { pool, knotID, predicate, mutations, restored: restore });
+        });
+    }
+
+    /** Whether refreshes record what predicates read: only incremental refresh and auto-marking use it. */
+    private tracksReads(): boolean {
+        return this.incrementalRefresh || this.autoMarkNeedsRefresh;
+    }
+
+    /** Record what a storylet's predicates read, so changes to it invalidate the storylet. */
+    private setDependencies(storylet: Storylet, dependencies: StoryletDependencies | null): void {
+        for (const variable of storylet.dependencies?.variables ?? []) {
+            this._dependents.get(variable)?.delete(storylet);
+        }
+        storylet.dependencies = dependencies;
+        for (const variable of dependencies?.variables ?? []) {
+            let dependents = this._dependents.get(variable);
+            if (!dependents) this._dependents.set(variable, dependents = new Set());
+            dependents.add(storylet);
+            this.observeVariable(variable);
         }
     }
 
-    private getAllKnotIDs(): string[] {
-        const knotList: string[] = [];
-        // @ts-ignore
-        const mainContentContainer = this._story.mainContentContainer || this._story._mainContentContainer;
+    /** Start observing an Ink variable for changes, once per variable. */
+    private observeVariable(variable: string): void {
+        if (this._observedVariables.has(variable)) return;
+        try {
+            this._story.ObserveVariable(variable, this._variableObserver);
+            this._observedVariables.add(variable);
+        } catch (e) {
+            console.warn(`[StoryletManager] Could not observe variable "${variable}":`, e);
+        }
+    }
 
-        if (!mainContentContainer) {
-            console.warn("[StoryletManager] Could not find mainContentContainer");
-            return knotList;
+    private onVariableChanged(variable: string): void {
+        const dependents = this._dependents.get(variable) ?? new Set<Storylet>();
+        for (const storylet of dependents) storylet.predicateWeight = null;
+        if (!this.autoMarkNeedsRefresh) return;
+
+        for (const [poolName, poolState] of this._pools) {
+            if (poolState.state !== State.REFRESH_COMPLETE) continue;
+            const affected = poolState.groupVariables.has(variable)
+                || Array.from(dependents).some(s => poolState.deck.get(s.knotID) === s);
+            if (affected) {
+                poolState.state = State.NEEDS_REFRESH;
+                this._events.emit('poolInvalidated', { pool: poolName, variable });
+            }
         }
+    }
 
-        // @ts-ignore
-        const namedContent = mainContentContainer.namedOnlyContent || mainContentContainer.namedContent;
+    /** Invalidate storylets whose predicates read play history. */
+    private invalidatePlayHistory(): void {
+        for (const poolState of this._pools.values()) {
+            for (const storylet of poolState.deck.values()) {
+                if (storylet.dependencies?.playHistory) storylet.predicateWeight = null;
+            }
+        }
+    }
 
-        if (namedContent) {
-            // @ts-ignore
-            if (namedContent instanceof Map || (typeof namedContent.keys === 'function' && typeof namedContent.get === 'function')) {
-                // @ts-ignore
-                for (const name of namedContent.keys()) {
-                    if (name === "global decl") continue;
-                    knotList.push(name);
-                }
-            } else {
-                for (const name of Object.keys(namedContent)) {
-                    if (name === "global decl") continue;
-                    knotList.push(name);
-                }
+    /**
+     * Bind the play-history external functions so Ink predicates can use them:
+     *   storylet_play_count(knotID)  → number of times played
+     *   storylet_turns_since(knotID) → turns since last played, or -1 if never
+     * Declare them in Ink with e.g. `EXTERNAL storylet_play_count(knotID)`.
+     */
+    private bindInkFunctions(): void {
+        // Keep HISTORY_FUNCTIONS in step with these names.
+        const bindings: Record<string, (knotID: string) => number> = {
+            storylet_play_count: (knotID) => this.getPlayCount(knotID),
+            storylet_turns_since: (knotID) => this.getTurnsSincePlayed(knotID)
+        };
+        for (const [name, fn] of Object.entries(bindings)) {
+            try {
+                this._story.BindExternalFunction(name, fn, true);
+            } catch (e) {
+                console.warn(`[StoryletManager] Could not bind external function "${name}":`, e);
             }
-        } else {
-            console.warn("[StoryletManager] Could not find namedContent");
         }
+    }
+
+    /** Remember the current story's tag registrations matching `which` as removed. */
+    private forgetTagRegistrations(which: (registration: Registration) => boolean): void {
+        for (const registration of globalTagRegistrations(this._story)) {
+            if (which(registration)) this._removedTagRegistrations.add(tagRegistrationKey(registration));
+        }
+    }
 
-        return knotList;
+    /**
+     * Parse #storylets: global tags and register each as addStorylets() would — but
+     * not as a code registration, since replaceStory() reads the new story's tags.
+     * Tag format: #storylets:name  or  #storylets:name,poolName
+     */
+    private addStoryletsFromGlobalTags(): void {
+        const allKnotIDs = getAllKnotIDs(this._story);
+        for (const registration of globalTagRegistrations(this._story)) {
+            this.applyRegistration(registration, allKnotIDs);
+        }
     }
 }
 
+// The external functions bound by bindInkFunctions().
+const HISTORY_FUNCTIONS: ReadonlySet<string> = new Set(['storylet_play_count', 'storylet_turns_since']);
+
 enum State {
     NEEDS_REFRESH,
     REFRESHING,
@@ -504,34 +2123,136 @@ enum State {
 }
 
 function resetPoolState(poolState: PoolState): void {
-    for (const s of poolState.deck.values()) s.played = false;
+    for (const s of poolState.deck.values()) {
+        s.playCount = 0;
+        s.lastPlayedTurn = null;
+        s.cooldownRemaining = 0;
+    }
     poolState.refreshList = [];
-    poolState.hand = [];
-    poolState.handWeighted = [];
+    clearHand(poolState);
     poolState.state = State.NEEDS_REFRESH;
+    clearRefreshProgress(poolState);
+    poolState.strategy?.reset?.();
+}
+
+function clearRefreshProgress(poolState: PoolState): void {
+    poolState.refreshTotal = 0;
+    poolState.refreshStartTime = null;
+    poolState.refreshEndTime = null;
+}
+
+function poolProgress(poolState: PoolState, now: number): RefreshProgress {
+    if (poolState.state === State.NEEDS_REFRESH) {
+        return { state: 'needsRefresh', evaluated: 0, total: 0, fraction: 0, elapsedMs: 0, estimatedRemainingMs: null };
+    }
+    const state = poolState.state === State.REFRESHING ? 'refreshing' : 'ready';
+    const total = poolState.refreshTotal;
+    const evaluated = total - poolState.refreshList.length;
+    const start = poolState.refreshStartTime;
+    const elapsedMs = start === null ? 0 : (poolState.refreshEndTime ?? now) - start;
+    return {
+        state,
+        evaluated,
+        total,
+        fraction: total > 0 ? evaluated / total : state === 'ready' ? 1 : 0,
+        elapsedMs,
+        estimatedRemainingMs: estimateRemaining(state, evaluated, total, elapsedMs)
+    };
+}
+
+/** Extrapolate the time per storylet so far over the storylets left. */
+function estimateRemaining(state: RefreshProgress['state'], evaluated: number, total: number, elapsedMs: number): number | null {
+    if (state === 'ready') return 0;
+    if (state !== 'refreshing' || evaluated === 0) return null;
+    return (elapsedMs / evaluated) * (total - evaluated);
+}
+
+function clearHand(poolState: PoolState): void {
+    poolState.hand = [];
+    poolState.tagIndex = new Map();
+}
+
+/** Append a playable storylet to the pool's hand and index its tags. */
+function addToHand(poolState: PoolState, candidate: SelectionCandidate, tags: Record<string, any> | undefined): void {
+    addToTagIndex(poolState.tagIndex, poolState.hand.length, tags ?? {});
+    poolState.hand.push(candidate);
+}
+
+function defaultClock(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
 }
 
 /**
- * Parse an array of raw Ink tag strings into a key/value map.
- *   #once            → { once: true }
- *   #desc: Some text → { desc: "Some text" }
- *   #loc: library    → { loc: "library" }
- * Tag names are lowercased. "true"/"false" string values become booleans.
+ * Convert a predicate's return value to a weight:
+ * true → 1, false → 0, finite positive numbers as-is, anything else → 0.
  */
-function parseTags(rawTags: string[]): Record<string, any> {
-    const result: Record<string, any> = {};
-    for (const tag of rawTags) {
-        const colonIdx = tag.indexOf(':');
-        if (colonIdx === -1) {
-            result[tag.trim().toLowerCase()] = true;
-        } else {
-            const key = tag.slice(0, colonIdx).trim().toLowerCase();
-            const raw = tag.slice(colonIdx + 1).trim();
-            const lower = raw.toLowerCase();
-            if (lower === 'true') result[key] = true;
-            else if (lower === 'false') result[key] = false;
-            else result[key] = raw;
-        }
+function predicateValueToWeight(value: any): number {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : 0;
+    return 0;
+}
+
+/**
+ * Run a predicate, catching what it throws. An Ink runtime error also leaves the story
+ * refusing to continue until its errors are cleared, so they are — unless the story
+ * already had errors of its own before the predicate ran.
+ */
+function tryPredicate(story: Story, evaluate: () => any): { value: any } | { error: unknown } {
+    const hadErrors = story.state.hasError;
+    try {
+        return { value: evaluate() };
+    } catch (error) {
+        if (!hadErrors) story.ResetErrors();
+        return { error };
+    }
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/** A group predicate only deactivates its group by returning false or a number <= 0. */
+function isGroupActive(value: any): boolean {
+    if (typeof value === 'boolean' || typeof value === 'number') return predicateValueToWeight(value) > 0;
+    return true;
+}
+
+/** The registrations made by a story's `#storylets:` global tags. */
+function globalTagRegistrations(story: Story): Registration[] {
+    const registrations: Registration[] = [];
+    for (const tag of story.globalTags ?? []) {
+        const parsed = parseStoryletsTag(tag);
+        if (parsed) registrations.push({ kind: 'prefix', ...parsed });
+    }
+    return registrations;
+}
+
+/** Identifies a tag registration the way its tag is written, e.g. "tavern,town". */
+function tagRegistrationKey(registration: Registration): string {
+    return `${registration.name},${registration.pool}`;
+}
+
+/** Bind `from`'s external functions in `to`, where `to` doesn't bind that name itself. */
+function copyExternalBindings(from: Story, to: Story): void {
+    const source = getExternalBindings(from);
+    const target = getExternalBindings(to);
+    for (const [name, binding] of source) {
+        if (!target.has(name)) target.set(name, binding);
+    }
+}
+
+function markPlayedInPool(poolState: PoolState, knotID: string, turn: number): void {
+    const s = poolState.deck.get(knotID);
+    if (!s) return;
+    tickCooldowns(poolState, 'picks');
+    s.playCount++;
+    s.lastPlayedTurn = turn;
+    if (s.cooldown) s.cooldownRemaining = s.cooldown.count;
+}
+
+/** Count down every storylet in the pool whose cooldown is measured in `unit`. */
+function tickCooldowns(poolState: PoolState, unit: StoryletCooldown['unit']): void {
+    for (const s of poolState.deck.values()) {
+        if (s.cooldownRemaining > 0 && s.cooldown?.unit === unit) s.cooldownRemaining--;
     }
-    return result;
 }
@@ -0,0 +1,318 @@
+import type { PendingStorylet, StoryletManager } from './StoryletManager';
+import type { SelectionStrategy } from './Selection';
+import { EventEmitter, EventListener } from './Events';
+import { DEFAULT_POOL } from './InkContent';
+import { runUntil } from './StoryletRunner';
+import type { Scheduler } from './Scheduler';
+
+/** One line of Ink output, with the tags on that line. */
+export interface StoryletLine {
+    text: string;
+    tags: string[];
+}
+
+/** A choice currently offered by the playing storylet. */
+export interface StoryletChoice {
+    /** Pass to choose(). */
+    index: number;
+    text: string;
+    tags: string[];
+}
+
+export interface StoryletPlayerOptions {
+    /**
+     * Which pools to refresh when a storylet completes: 'all' (the default), 'pool'
+     * for the pool(s) it was played from, a list of pool names, or 'none'.
+     */
+    refresh?: 'all' | 'pool' | 'none' | string[];
+    /**
+     * If true (the default) tick() is driven automatically via the runner until the
+     * refreshed pools are ready. Pass false if your own game loop already calls tick().
+     */
+    drive?: boolean;
+    /** How the runner schedules ticks when driving. Default: the runner's default scheduler. */
+    scheduler?: Scheduler;
+}
+
+/** Events emitted by StoryletPlayer, mapped to their payload types. */
+export interface StoryletPlayerEvents {
+    /** A storylet was started. */
+    started: { knotID: string; pools: string[] };
+    /** continue() produced a line. */
+    line: StoryletLine;
+    /** The storylet stopped at a choice; call choose(). */
+    choices: { choices: StoryletChoice[] };
+    /** The storylet ran to the end and was marked played; refreshes have been started. */
+    completed: { knotID: string; pools: string[] };
+    /**
+     * abandon() stopped the storylet before the end, or its pending pick was abandoned
+     * elsewhere (e.g. by manager.reset() or replaceStory()), which stops the player straight
+     * away. It wasn't marked played.
+     */
+    abandoned: { knotID: string; pools: string[] };
+    /**
+     * The refresh started on completion failed: refresh() threw, or tick() threw while
+     * the player was driving it (e.g. with predicateErrorPolicy 'rethrow'). Driving stops.
+     */
+    error: { error: unknown };
+}
+
+/**
+ * Plays storylets from a StoryletManager through its Ink story: jumps to the knot,
+ * exposes the text, tags and choices as it runs, and when it reaches the end (no more
+ * content and no choices) marks it played and refreshes the configured pools.
+ * A storylet that is abandoned part-way is not marked played, so `#once` storylets
+ * stay available.
+ *
+ *   const player = new StoryletPlayer(manager);
+ *   player.on('completed', ({ knotID }) => ...);
+ *   if (player.playNext()) {
+ *       for (const line of player.continueMaximally()) show(line.text);
+ *       // then show player.getChoices() and call player.choose(index) ...
+ *   }
+ *
+ * One storylet plays at a time.
+ */
+export class StoryletPlayer {
+    private _manager: StoryletManager;
+    private _refresh: 'all' | 'pool' | 'none' | string[];
+    private _drive: boolean;
+    private _scheduler: Scheduler | undefined;
+    private _events: EventEmitter<StoryletPlayerEvents> = new EventEmitter();
+
+    private _pending: PendingStorylet | null = null;
+    private _pools: string[] = [];
+    private _stopDriving: (() => void) | null = null;
+    private _unsubscribe: () => void;
+
+    constructor(manager: StoryletManager, options: StoryletPlayerOptions = {}) {
+        this._manager = manager;
+        this._refresh = options.refresh ?? 'all';
+        this._drive = options.drive ?? true;
+        this._scheduler = options.scheduler;
+        this._unsubscribe = manager.on('storyletAbandoned', () => this.checkAbandoned());
+    }
+
+    // --- Events ---
+
+    /** Subscribe to a player event. Returns a function that unsubscribes the listener. */
+    public on<K extends keyof StoryletPlayerEvents>(
+        event: K,
+        listener: EventListener<StoryletPlayerEvents[K]>
+    ): () => void {
+        return this._events.on(event, listener);
+    }
+
+    /** Subscribe to the next occurrence of a player event only. */
+    public once<K extends keyof StoryletPlayerEvents>(
+        event: K,
+        listener: EventListener<StoryletPlayerEvents[K]>
+    ): () => void {
+        return this._events.once(event, listener);
+    }
+
+    /** Unsubscribe a listener previously passed to on() or once(). */
+    public off<K extends keyof StoryletPlayerEvents>(
+        event: K,
+        listener: EventListener<StoryletPlayerEvents[K]>
+    ): void {
+        this._events.off(event, listener);
+    }
+
+    // --- State ---
+
+    /** Returns true while a storylet is playing (started and not completed or abandoned). */
+    public isPlaying(): boolean {
+        return this._pending !== null;
+    }
+
+    /** The playing storylet's knotID, or null. */
+    public getKnotID(): string | null {
+        return this._pending?.knotID ?? null;
+    }
+
+    /** Returns true if continue() has more content to produce. */
+    public canContinue(): boolean {
+        return this.isPlaying() && this._manager.getStory().canContinue;
+    }
+
+    /** The choices currently offered (empty while there is content to continue). */
+    public getChoices(): StoryletChoice[] {
+        if (!this.isPlaying()) return [];
+        return this._manager.getStory().currentChoices.map(choice => ({
+            index: choice.index,
+            text: choice.text,
+            tags: choice.tags ?? []
+        }));
+    }
+
+    // --- Playing ---
+
+    /**
+     * Choose a storylet from `pool` (default: 'default') with the pool's selection
+     * strategy, or `strategy` if given, and start it. Returns its knotID, or null if the
+     * pool isn't ready, nothing is playable, or a storylet is already playing.
+     */
+    public playNext(pool: string = DEFAULT_POOL, strategy?: SelectionStrategy): string | null {
+        if (this.isPlaying()) {
+            console.error(`[StoryletPlayer] "${this._pending!.knotID}" is still playing`);
+            return null;
+        }
+        const pending = this._manager.pickPendingStorylet(pool, strategy);
+        if (!pending) return null;
+        this.play(pending);
+        return pending.knotID;
+    }
+
+    /**
+     * Start a storylet: jump the story to its knot. It is marked played in `pool` on
+     * completion — or, if `pool` is omitted, in every pool it is registered in.
+     * Returns false if it isn't registered (in `pool`) or a storylet is already playing.
+     */
+    public start(knotID: string, pool?: string): boolean {
+        if (this.isPlaying()) {
+            console.error(`[StoryletPlayer] "${this._pending!.knotID}" is still playing`);
+            return false;
+        }
+        const pending = this._manager.beginStorylet(knotID, pool);
+        if (!pending) return false;
+        this.play(pending);
+        return true;
+    }
+
+    /**
+     * Produce the next line. Returns null if there is nothing to continue (not playing,
+     * or waiting for a choice). May complete the storylet.
+     */
+    public continue(): StoryletLine | null {
+        if (!this.canContinue()) return null;
+        const pending = this._pending;
+        const story = this._manager.getStory();
+        const line: StoryletLine = { text: story.Continue() ?? '', tags: story.currentTags ?? [] };
+        this._events.emit('line', line);
+        // A 'line' listener may have abandoned the storylet (or started another).
+        if (this._pending !== pending) return line;
+        this.checkStopped();
+        return line;
+    }
+
+    /** Continue until a choice or the end, returning every line produced. */
+    public continueMaximally(): StoryletLine[] {
+        const lines: StoryletLine[] = [];
+        let line: StoryletLine | null;
+        while ((line = this.continue()) !== null) lines.push(line);
+        return lines;
+    }
+
+    /** Take a choice by its index (see getChoices()). Returns false if it isn't on offer. */
+    public choose(index: number): boolean {
+        const story = this._manager.getStory();
+        if (!this.isPlaying() || !story.currentChoices.some(choice => choice.index === index)) {
+            console.error(`[StoryletPlayer] Choice ${index} is not available`);
+            return false;
+        }
+        story.ChooseChoiceIndex(index);
+        this.checkStopped();
+        return true;
+    }
+
+    /**
+     * Stop the playing storylet without marking it played or refreshing. The Ink story
+     * is left where it stopped.
+     */
+    public abandon(): void {
+        if (this._pending === null) return;
+        const pending = this._pending;
+        const pools = this._pools;
+        this.clear();
+        pending.abandon();
+        this._events.emit('abandoned', { knotID: pending.knotID, pools });
+    }
+
+    /**
+     * Stop driving a refresh started on completion (see `drive`) and stop listening to
+     * the manager. Call it when you're done with the player.
+     */
+    public dispose(): void {
+        this.stopDriving();
+        this._unsubscribe();
+    }
+
+    // --- Internals ---
+
+    private play(pending: PendingStorylet): void {
+        this._pending = pending;
+        this._pools = pending.pool !== null ? [pending.pool] : this._manager.getStoryletPools(pending.knotID);
+        this._manager.getStory().ChoosePathString(pending.knotID);
+        this._events.emit('started', { knotID: pending.knotID, pools: this._pools.slice() });
+    }
+
+    /** After content or a choice: complete if the story has ended, or announce choices. */
+    private checkStopped(): void {
+        const pending = this._pending;
+        const story = this._manager.getStory();
+        if (pending === null || story.canContinue) return;
+        if (story.currentChoices.length > 0) {
+            this._events.emit('choices', { choices: this.getChoices() });
+            return;
+        }
+
+        const pools = this._pools;
+        this.clear();
+        if (!pending.commit()) {
+            this._events.emit('abandoned', { knotID: pending.knotID, pools });
+            return;
+        }
+        this.refreshAfter(pools);
+        this._events.emit('completed', { knotID: pending.knotID, pools: pools.slice() });
+    }
+
+    private refreshAfter(playedPools: string[]): void {
+        if (this._refresh === 'none') return;
+
+        // null → all pools
+        const pools = this._refresh === 'all' ? null : this._refresh === 'pool' ? playedPools : this._refresh;
+        try {
+            if (pools === null) this._manager.refresh();
+            else for (const p of pools) this._manager.refresh(p);
+        } catch (error) {
+            this.fail(error);
+            return;
+        }
+
+        if (!this._drive) return;
+        const isDone = pools === null
+            ? () => this._manager.areAllReady()
+            : () => pools.every(p => this._manager.isReady(p));
+        this.stopDriving();
+        this._stopDriving = runUntil(this._manager, isDone, error => this.fail(error), this._scheduler);
+    }
+
+    private fail(error: unknown): void {
+        this.stopDriving();
+        console.error('[StoryletPlayer] Refresh after completion failed:', error);
+        this._events.emit('error', { error });
+    }
+
+    /**
+     * The manager abandoned a pick: if it was the playing storylet's, stop. (abandon()
+     * clears the player before abandoning its pick, so that isn't reported twice.)
+     */
+    private checkAbandoned(): void {
+        const pending = this._pending;
+        if (pending?.status !== 'abandoned') return;
+        const pools = this._pools;
+        this.clear();
+        this._events.emit('abandoned', { knotID: pending.knotID, pools });
+    }
+
+    private stopDriving(): void {
+        this._stopDriving?.();
+        this._stopDriving = null;
+    }
+
+    private clear(): void {
+        this._pending = null;
+        this._pools = [];
+    }
+}
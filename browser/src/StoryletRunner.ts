@@ -1,24 +1,242 @@
-import { StoryletManager } from './StoryletManager';
+import type { StoryletManager } from './StoryletManager';
+import { AnimationFrameScheduler, Scheduler } from './Scheduler';
+
+export type { Scheduler } from './Scheduler';
+export {
+    AnimationFrameScheduler, ImmediateScheduler, ManualScheduler, MessageChannelScheduler, TimeoutScheduler
+} from './Scheduler';
+
+/** Options for startRunner() and runUntilReady(). */
+export interface RunOptions {
+    /** How to schedule each tick(). Default: the default scheduler (see setDefaultScheduler()). */
+    scheduler?: Scheduler;
+    /** Pools to wait for. Default: every registered pool. */
+    pools?: string[];
+    /** Finish when this returns true, instead of when the pools are ready. */
+    until?: () => boolean;
+    /**
+     * Called with any exception thrown by tick(); ticking continues. Without it the
+     * run fails: ticking stops and `done` rejects with the exception.
+     */
+    onError?: (error: unknown) => void;
+}
+
+/** A snapshot of a run's progress, from RunHandle.progress(). */
+export interface RunProgress {
+    state: 'running' | 'completed' | 'cancelled' | 'failed';
+    /** tick() calls made since the run started. */
+    ticks: number;
+    /** Milliseconds since the run started (until it finished), by the manager's clock. */
+    elapsedMs: number;
+    /** How many of the pools being waited for are ready. */
+    readyPools: number;
+    totalPools: number;
+}
+
+/** A run started by startRunner(). */
+export interface RunHandle {
+    /**
+     * Resolves with true once the run completes, or false if it is cancelled. Rejects if
+     * tick() throws and no `onError` was given.
+     */
+    readonly done: Promise<boolean>;
+    /** Stop waiting. Ticking stops once no other run is driving the manager. */
+    cancel(): void;
+    progress(): RunProgress;
+}
+
+let defaultScheduler: Scheduler | null = null;
+
+/**
+ * Set the scheduler used when none is passed — including by refreshAsync() and
+ * StoryletPlayer. Pass null to go back to requestAnimationFrame.
+ */
+export function setDefaultScheduler(scheduler: Scheduler | null): void {
+    defaultScheduler = scheduler;
+}
+
+/** Returns the scheduler used when none is passed. Default: an AnimationFrameScheduler (requestAnimationFrame). */
+export function getDefaultScheduler(): Scheduler {
+    return defaultScheduler ??= new AnimationFrameScheduler();
+}
 
 /**
- * Drives manager.tick() via requestAnimationFrame until areAllReady().
+ * Drives manager.tick() until the pools are ready (or `until()` returns true) and
+ * returns a handle to cancel the run, check its progress, or await it.
  * Call this after manager.refresh() if you don't have your own game loop.
- * Returns a cancel function that stops the ticking.
+ *
+ * Runs on the same manager share one tick loop: starting another while one is going
+ * (say, refreshing a second pool) doesn't tick any faster, and each run finishes on
+ * its own condition. A run that joins an existing loop ticks on that loop's scheduler.
+ *
+ * Example:
+ *   manager.refresh();
+ *   const run = startRunner(manager, { scheduler: new MessageChannelScheduler() });
+ *   await run.done;
+ */
+export function startRunner(manager: StoryletManager, options: RunOptions = {}): RunHandle {
+    const { pools, until, onError } = options;
+    const isDone = until ?? (pools
+        ? () => pools.every(p => manager.isReady(p))
+        : () => manager.areAllReady());
+
+    let loop = loops.get(manager);
+    if (!loop) {
+        loop = new TickLoop(manager, options.scheduler ?? getDefaultScheduler());
+        loops.set(manager, loop);
+    }
+    const run = new Run(manager, loop, isDone, pools ?? null, onError);
+    loop.add(run);
+    return run;
+}
+
+/**
+ * Drives manager.tick() via requestAnimationFrame (or `options.scheduler`) until areAllReady().
+ * Returns a cancel function that stops the ticking. Use startRunner() for a handle
+ * with progress and a completion Promise. If tick() throws and `options.onError` isn't
+ * given, the error is logged and ticking stops.
  *
  * Example:
  *   manager.refresh();
  *   const cancel = runUntilReady(manager);
- *   // onRefreshComplete fires once all pools are done
+ *   // the manager emits allReady once all pools are done
  *   // call cancel() early if needed
  */
-export function runUntilReady(manager: StoryletManager): () => void {
-    let rafId: number | null = null;
+export function runUntilReady(manager: StoryletManager, options: RunOptions = {}): () => void {
+    const run = startRunner(manager, options);
+    logFailure(run);
+    return () => run.cancel();
+}
+
+/**
+ * Drives manager.tick() via requestAnimationFrame (or `scheduler`) until `isDone()` returns true.
+ * If `onError` is given, an exception thrown by tick() is passed to it and ticking
+ * continues; otherwise the exception is logged and ticking stops.
+ * Returns a cancel function that stops the ticking.
+ */
+export function runUntil(
+    manager: StoryletManager,
+    isDone: () => boolean,
+    onError?: (error: unknown) => void,
+    scheduler?: Scheduler
+): () => void {
+    const run = startRunner(manager, { until: isDone, onError, scheduler });
+    logFailure(run);
+    return () => run.cancel();
+}
+
+/**
+ * The helpers above don't hand out `done`, so nobody else can handle its rejection:
+ * log it instead of leaving an unhandled rejection (which ends a Node process).
+ */
+function logFailure(run: RunHandle): void {
+    run.done.catch(error => console.error('[StoryletRunner] tick() threw; stopped ticking:', error));
+}
+
+// The tick loop currently driving each manager.
+const loops = new WeakMap<StoryletManager, TickLoop>();
+
+class TickLoop {
+    private _runs: Set<Run> = new Set();
+    private _cancelNext: (() => void) | null = null;
+
+    constructor(private _manager: StoryletManager, private _scheduler: Scheduler) {}
+
+    public add(run: Run): void {
+        this._runs.add(run);
+        if (!this._cancelNext) this.scheduleNext();
+    }
+
+    public remove(run: Run): void {
+        this._runs.delete(run);
+        if (this._runs.size > 0) return;
+        this._cancelNext?.();
+        this._cancelNext = null;
+        if (loops.get(this._manager) === this) loops.delete(this._manager);
+    }
 
-    function loop() {
-        manager.tick();
-        rafId = manager.areAllReady() ? null : requestAnimationFrame(loop);
+    private scheduleNext(): void {
+        this._cancelNext = this._scheduler.schedule(() => this.step());
     }
 
-    rafId = requestAnimationFrame(loop);
-    return () => { if (rafId !== null) cancelAnimationFrame(rafId); };
+    private step(): void {
+        this._cancelNext = null;
+        // Runs started by listeners during this tick are checked after the next one.
+        const runs = Array.from(this._runs);
+        let failed = false;
+        let error: unknown;
+        try {
+            this._manager.tick();
+        } catch (e) {
+            failed = true;
+            error = e;
+        }
+
+        for (const run of runs) {
+            // A listener fired during tick() may have cancelled it.
+            if (!this._runs.has(run)) continue;
+            run.ticks++;
+            if (failed && !run.handleError(error)) continue;
+            if (run.isDone()) run.finish('completed');
+        }
+        if (this._runs.size > 0 && !this._cancelNext) this.scheduleNext();
+    }
+}
+
+class Run implements RunHandle {
+    public readonly done: Promise<boolean>;
+    public ticks: number = 0;
+    private _state: RunProgress['state'] = 'running';
+    private _startTime: number;
+    private _endTime: number | null = null;
+    private _resolve!: (completed: boolean) => void;
+    private _reject!: (error: unknown) => void;
+
+    constructor(
+        private _manager: StoryletManager,
+        private _loop: TickLoop,
+        public readonly isDone: () => boolean,
+        private _pools: string[] | null,
+        private _onError: ((error: unknown) => void) | undefined
+    ) {
+        this._startTime = _manager.clock();
+        this.done = new Promise((resolve, reject) => {
+            this._resolve = resolve;
+            this._reject = reject;
+        });
+    }
+
+    public cancel(): void {
+        this.finish('cancelled');
+    }
+
+    public progress(): RunProgress {
+        const pools = this._pools ?? this._manager.getPoolNames();
+        return {
+            state: this._state,
+            ticks: this.ticks,
+            elapsedMs: (this._endTime ?? this._manager.clock()) - this._startTime,
+            readyPools: pools.filter(p => this._manager.isReady(p)).length,
+            totalPools: pools.length
+        };
+    }
+
+    /** Returns false if the error failed the run. */
+    public handleError(error: unknown): boolean {
+        if (this._onError) {
+            this._onError(error);
+            return true;
+        }
+        this.finish('failed', error);
+        return false;
+    }
+
+    public finish(state: Exclude<RunProgress['state'], 'running'>, error?: unknown): void {
+        if (this._state !== 'running') return;
+        this._state = state;
+        this._endTime = this._manager.clock();
+        this._loop.remove(this);
+        if (state === 'failed') this._reject(error);
+        else this._resolve(state === 'completed');
+    }
 }
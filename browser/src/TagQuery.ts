@@ -0,0 +1,191 @@
+/**
+ * Filtering and sorting storylets by their parsed tags. Used by
+ * StoryletManager.queryPlayableStorylets() and getPlayableStoryletsWithTag().
+ */
+
+/**
+ * A condition on one tag. A plain value means equality; an object combines operators,
+ * all of which must hold:
+ *
+ *   'bar'                        equals "bar" (for a list tag: contains "bar")
+ *   { ne: 'sad' }                not equal (true if the tag is absent)
+ *   { gt: 1, lte: 5 }            comparisons; both sides must be numbers, or both strings
+ *   { in: ['bar', 'cave'] }      equals any of these (for a list tag: contains any)
+ *   { notIn: ['bar'] }           equals none of these (true if the tag is absent)
+ *   { exists: true }             the tag is present (false: absent)
+ */
+export type TagCondition = TagOperators | string | number | boolean | null;
+
+export interface TagOperators {
+    eq?: any;
+    ne?: any;
+    lt?: number | string;
+    lte?: number | string;
+    gt?: number | string;
+    gte?: number | string;
+    in?: any[];
+    notIn?: any[];
+    exists?: boolean;
+}
+
+export interface TagSort {
+    tag: string;
+    /** Default: 'asc'. */
+    order?: 'asc' | 'desc';
+}
+
+/** A query over playable storylets. Every part is optional. */
+export interface StoryletQuery {
+    /** Tag name → condition. Every condition must hold. */
+    where?: Record<string, TagCondition>;
+    /**
+     * Sort by one or more tags, e.g. 'priority' or { tag: 'priority', order: 'desc' }.
+     * Storylets without the tag sort last; ties keep hand order.
+     */
+    sortBy?: string | TagSort | (string | TagSort)[];
+    /** Return at most this many storylets (after sorting). */
+    limit?: number;
+}
+
+/**
+ * Per-tag value index over a hand: tag name → tag value → positions in the hand, in
+ * hand order. List tags are indexed under each element. Object values aren't indexed.
+ */
+export type TagIndex = Map<string, Map<any, number[]>>;
+
+const OPERATORS = new Set(['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'in', 'notIn', 'exists']);
+
+/**
+ * Returns true if the parsed `tags` satisfy every condition in `where`.
+ * Tag names are case-insensitive. Throws on an unknown operator.
+ */
+export function matchesTagQuery(tags: Record<string, any>, where: Record<string, TagCondition>): boolean {
+    for (const [name, condition] of Object.entries(where)) {
+        const key = name.toLowerCase();
+        if (!matchesCondition(key in tags, tags[key], condition, name)) return false;
+    }
+    return true;
+}
+
+/** Index the parsed `tags` of the storylet at `position` in the hand. */
+export function addToTagIndex(index: TagIndex, position: number, tags: Record<string, any>): void {
+    for (const [key, value] of Object.entries(tags)) {
+        const values = Array.isArray(value) ? new Set(value) : [value];
+        let byValue = index.get(key);
+        for (const v of values) {
+            if (v !== null && typeof v === 'object') continue;
+            if (!byValue) index.set(key, byValue = new Map());
+            const positions = byValue.get(v);
+            if (positions) positions.push(position);
+            else byValue.set(v, [position]);
+        }
+    }
+}
+
+/**
+ * Use the index to narrow `where` to the hand positions that can match: those passing
+ * the most selective equality (`value`, `eq`) or `in` condition, in hand order. Other
+ * conditions still need checking with matchesTagQuery(). Returns null if no condition
+ * can use the index.
+ */
+export function lookupTagIndex(index: TagIndex, where: Record<string, TagCondition>): number[] | null {
+    let best: number[] | null = null;
+    for (const [name, condition] of Object.entries(where)) {
+        const values = indexableValues(condition);
+        if (values === null) continue;
+
+        const byValue = index.get(name.toLowerCase());
+        let positions: number[];
+        if (values.length === 1) {
+            positions = byValue?.get(values[0]) ?? [];
+        } else {
+            const merged = new Set<number>();
+            for (const v of values) byValue?.get(v)?.forEach(p => merged.add(p));
+            positions = Array.from(merged).sort((a, b) => a - b);
+        }
+        if (best === null || positions.length < best.length) best = positions;
+        if (best.length === 0) break;
+    }
+    return best;
+}
+
+/**
+ * Sort `items` in place by the tags returned by `tagsOf`. The sort is stable.
+ */
+export function sortByTags<T>(
+    items: T[],
+    tagsOf: (item: T) => Record<string, any>,
+    sortBy: string | TagSort | (string | TagSort)[]
+): T[] {
+    const keys = (Array.isArray(sortBy) ? sortBy : [sortBy])
+        .map(s => typeof s === 'string' ? { tag: s, order: 'asc' } : s)
+        .map(s => ({ key: s.tag.toLowerCase(), direction: s.order === 'desc' ? -1 : 1 }));
+
+    return items.sort((a, b) => {
+        const tagsA = tagsOf(a);
+        const tagsB = tagsOf(b);
+        for (const { key, direction } of keys) {
+            const result = compareForSort(tagsA[key], tagsB[key], direction);
+            if (result !== 0) return result;
+        }
+        return 0;
+    });
+}
+
+function matchesCondition(present: boolean, value: any, condition: TagCondition, name: string): boolean {
+    if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+        return present && equals(value, condition);
+    }
+
+    for (const [op, operand] of Object.entries(condition)) {
+        if (!OPERATORS.has(op)) throw new Error(`[StoryletManager] Unknown operator "${op}" in query on tag "${name}"`);
+        if (operand === undefined) continue;
+
+        let passed: boolean;
+        switch (op) {
+            case 'eq': passed = present && equals(value, operand); break;
+            case 'ne': passed = !present || !equals(value, operand); break;
+            case 'in': passed = present && operand.some((v: any) => equals(value, v)); break;
+            case 'notIn': passed = !present || !operand.some((v: any) => equals(value, v)); break;
+            case 'exists': passed = present === operand; break;
+            default: {
+                const result = compare(value, operand);
+                passed = result !== null && (
+                    op === 'lt' ? result < 0 :
+                    op === 'lte' ? result <= 0 :
+                    op === 'gt' ? result > 0 :
+                    result >= 0);
+            }
+        }
+        if (!passed) return false;
+    }
+    return true;
+}
+
+/** The values an equality or `in` condition matches, or null if it's some other condition. */
+function indexableValues(condition: TagCondition): any[] | null {
+    if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) return [condition];
+    if (condition.eq !== undefined) return [condition.eq];
+    if (Array.isArray(condition.in)) return condition.in;
+    return null;
+}
+
+/** Tag equality, or membership for list tags. */
+function equals(value: any, expected: any): boolean {
+    return Array.isArray(value) ? value.includes(expected) : value === expected;
+}
+
+/** Compare two numbers or two strings; null if they aren't comparable. */
+function compare(a: any, b: any): number | null {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+    return null;
+}
+
+function compareForSort(a: any, b: any, direction: number): number {
+    const hasA = a !== undefined && a !== null;
+    const hasB = b !== undefined && b !== null;
+    if (!hasA || !hasB) return hasA === hasB ? 0 : hasA ? -1 : 1;
+    if (typeof a === 'boolean' && typeof b === 'boolean') return (Number(a) - Number(b)) * direction;
+    return (compare(a, b) ?? compare(String(a), String(b))!) * direction;
+}
@@ -1,5 +1,5 @@
 import { Story } from 'inkjs';
-import { StoryletManager } from '../src/StoryletManager';
+import { StoryletManager, StoryletPlayer } from '../src/StoryletManager';
 import { runUntilReady } from '../src/StoryletRunner';
 import storyContent from '../../tests/test1/test.ink.json';
 
@@ -17,6 +17,7 @@ function log(msg: string, type: 'info' | 'error' | 'success' = 'info') {
 }
 
 let manager: StoryletManager | null = null;
+let player: StoryletPlayer | null = null;
 // @ts-ignore
 const story = new Story(storyContent);
 
@@ -25,16 +26,19 @@ function init() {
         log('Initializing StoryletManager...', 'info');
 
         manager = new StoryletManager(story);
+        // Marks storylets played when they finish, then refreshes and ticks all pools.
+        player = new StoryletPlayer(manager);
 
-        // onRefreshComplete now receives the pool name that just finished refreshing.
-        manager.onRefreshComplete = (pool: string) => {
+        // refreshComplete fires with the pool name that just finished refreshing.
+        manager.on('refreshComplete', ({ pool }) => {
             log(`Refresh Complete for pool "${pool}"! Playable storylets available.`, 'success');
-            // Only update the UI once all registered pools are ready.
-            if (manager!.areAllReady()) {
-                statusEl.textContent = 'Status: Ready';
-                updatePlayableList();
-            }
-        };
+        });
+
+        // Only update the UI once all registered pools are ready.
+        manager.on('allReady', () => {
+            statusEl.textContent = 'Status: Ready';
+            updatePlayableList();
+        });
 
         // Test addStorylets
         //log('Scanning and adding storylets with prefix "story_" into the default pool...', 'info');
@@ -70,7 +74,9 @@ document.getElementById('btn-pick')!.addEventListener('click', () => {
     if (!manager) return log('Manager not initialized', 'error');
     if (!manager.isReady()) return log('Manager not ready (refresh pending)', 'error');
 
-    const picked = manager.pickPlayableStorylet();
+    if (!player || player.isPlaying()) return log('A storylet is still playing', 'error');
+
+    const picked = player.playNext();
     if (picked) {
         log(`Picked storylet: ${picked}`, 'success');
         playStorylet(picked);
@@ -84,43 +90,38 @@ function playStorylet(knotID: string) {
     storyTextEl.textContent = '';
     storyChoicesEl.innerHTML = '';
 
-    // Jump to the storylet
-    story.ChoosePathString(knotID);
-
     continueStory();
 }
 
 function continueStory() {
-    while (story.canContinue) {
-        const text = story.Continue();
+    if (!player) return;
+    for (const line of player.continueMaximally()) {
         const p = document.createElement('div');
-        p.textContent = text;
+        p.textContent = line.text;
         storyTextEl.appendChild(p);
     }
 
-    if (story.currentChoices.length > 0) {
-        story.currentChoices.forEach((choice: any) => {
+    if (player.isPlaying()) {
+        player.getChoices().forEach(choice => {
             const btn = document.createElement('button');
             btn.textContent = choice.text;
             btn.onclick = () => {
-                story.ChooseChoiceIndex(choice.index);
+                player!.choose(choice.index);
                 storyChoicesEl.innerHTML = ''; // clear choices
                 continueStory();
             };
             storyChoicesEl.appendChild(btn);
         });
     } else {
+        // The player has marked it played and is refreshing all pools.
         log("Storylet finished. Refreshing...", 'info');
         statusEl.textContent = 'Status: Refreshing...';
-        if (manager) {
-            manager.refresh();
-            runUntilReady(manager);
-        }
     }
 }
 
 document.getElementById('btn-reset')!.addEventListener('click', () => {
     if (!manager) return log('Manager not initialized', 'error');
+    player?.abandon();
     manager.reset();
     log('Reset complete.', 'info');
     statusEl.textContent = 'Status: Reset';
@@ -15,7 +15,8 @@ export default defineConfig({
         lib: {
             entry: {
                 StoryletManager: resolve(__dirname, 'src/StoryletManager.ts'),
-                StoryletRunner: resolve(__dirname, 'src/StoryletRunner.ts')
+                StoryletRunner: resolve(__dirname, 'src/StoryletRunner.ts'),
+                StoryletLinter: resolve(__dirname, 'src/StoryletLinter.ts')
             }
         },
         rollupOptions: {
@@ -0,0 +1,50 @@
+/** Listener for a single event, receiving that event's payload. */
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to its payload type.
+ *
+ * A listener that throws is logged and does not stop the remaining listeners
+ * from being called, so independent subscribers can't break each other.
+ */
+export class EventEmitter<Events extends object> {
+    private _listeners: Map<keyof Events, Set<EventListener<any>>> = new Map();
+
+    /** Subscribe to an event. Returns a function that unsubscribes the listener. */
+    public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+        let set = this._listeners.get(event);
+        if (!set) {
+            set = new Set();
+            this._listeners.set(event, set);
+        }
+        set.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    /** Subscribe to the next occurrence of an event only. */
+    public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+        const off = this.on(event, (payload) => {
+            off();
+            listener(payload);
+        });
+        return off;
+    }
+
+    /** Unsubscribe a listener previously passed to on(). Unknown listeners are ignored. */
+    public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        this._listeners.get(event)?.delete(listener);
+    }
+
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const set = this._listeners.get(event);
+        if (!set) return;
+        // Copy so listeners may unsubscribe while being called.
+        for (const listener of Array.from(set)) {
+            try {
+                listener(payload);
+            } catch (e) {
+                console.error(`[EventEmitter] Listener for "${String(event)}" threw:`, e);
+            }
+        }
+    }
+}
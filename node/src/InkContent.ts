@@ -0,0 +1,248 @@
+import { Story } from 'inkjs';
+
+/**
+ * Storylet discovery over compiled Ink content. Shared by StoryletManager and the
+ * linter so both see exactly the same storylets, predicates and tags.
+ */
+
+export const DEFAULT_POOL = 'default';
+
+/**
+ * Parsed form of a `#cooldown:` tag. After a storylet is played it is unavailable
+ * until `count` further picks from its pool, or `count` completed refreshes of its
+ * pool, have happened.
+ */
+export interface StoryletCooldown {
+    count: number;
+    unit: 'picks' | 'refreshes';
+}
+
+/**
+ * Picks storylet knots by name, for addStoryletsMatching(): a regular expression tested
+ * against each knotID, or a function returning true for the knots to register.
+ */
+export type StoryletMatcher = RegExp | ((knotID: string) => boolean);
+
+/** The storylets addStorylets(name) (or addStoryletsMatching(name, match)) would register. */
+export interface StoryletGroup {
+    knotIDs: string[];
+    /** `_<name>` if that knot exists, otherwise null. */
+    groupPredicate: string | null;
+}
+
+/** Returns the name of every top-level knot (and function) in the story. */
+export function getAllKnotIDs(story: Story): string[] {
+    const knotList: string[] = [];
+    // @ts-ignore
+    const mainContentContainer = story.mainContentContainer || story._mainContentContainer;
+
+    if (!mainContentContainer) {
+        console.warn("[StoryletManager] Could not find mainContentContainer");
+        return knotList;
+    }
+
+    // @ts-ignore
+    const namedContent = mainContentContainer.namedOnlyContent || mainContentContainer.namedContent;
+
+    if (namedContent) {
+        // @ts-ignore
+        if (namedContent instanceof Map || (typeof namedContent.keys === 'function' && typeof namedContent.get === 'function')) {
+            // @ts-ignore
+            for (const name of namedContent.keys()) {
+                if (name === "global decl") continue;
+                knotList.push(name);
+            }
+        } else {
+            for (const name of Object.keys(namedContent)) {
+                if (name === "global decl") continue;
+                knotList.push(name);
+            }
+        }
+    } else {
+        console.warn("[StoryletManager] Could not find namedContent");
+    }
+
+    return knotList;
+}
+
+/**
+ * Find the knots addStorylets(name) registers: those starting with `name_`, plus the
+ * optional `_<name>` group predicate. The underscore is inferred.
+ * With `match`, the knots it matches are found instead; knots starting with `_`
+ * (predicate functions) are never matched.
+ */
+export function findStoryletGroup(knotIDs: string[], name: string, match?: StoryletMatcher): StoryletGroup {
+    const prefix = name + '_';
+    const groupPredFn = '_' + name;
+    const matches = match === undefined
+        ? (knotID: string) => knotID.startsWith(prefix)
+        : (knotID: string) => !knotID.startsWith('_') && (match instanceof RegExp ? testRegExp(match, knotID) : match(knotID));
+    return {
+        knotIDs: knotIDs.filter(matches),
+        groupPredicate: knotIDs.includes(groupPredFn) ? groupPredFn : null
+    };
+}
+
+/**
+ * The group predicates gating `knotID` when addStorylets(name) registers it, top-down:
+ * `_<name>`, then one per further underscore-delimited level of the knotID, so
+ * `world_town_tavern_drink` under "world" is gated by `_world`, `_world_town` and
+ * `_world_town_tavern`. Only those in `knotIDs` (that exist) are returned.
+ */
+export function findGroupPredicates(knotID: string, name: string, knotIDs: ReadonlySet<string>): string[] {
+    const predicates: string[] = [];
+    let level = name;
+    for (;;) {
+        if (knotIDs.has('_' + level)) predicates.push('_' + level);
+        const next = knotID.indexOf('_', level.length + 1);
+        if (next === -1) break;
+        level = knotID.slice(0, next);
+    }
+    return predicates;
+}
+
+/** Returns the raw tags at the top of a knot. */
+export function getKnotTags(story: Story, knotID: string): string[] {
+    // Cast to any to handle both inkjs API versions: TagsForContentAtPath vs tagsForContentAtPath
+    const storyAny = story as any;
+    const rawTags: string[] | null = storyAny.TagsForContentAtPath
+        ? storyAny.TagsForContentAtPath(knotID)
+        : storyAny.tagsForContentAtPath?.(knotID) ?? null;
+    return rawTags ?? [];
+}
+
+/** An external function binding as inkjs keeps it: called with the Ink arguments as an array. */
+export interface ExternalBinding {
+    function: (args: any[]) => any;
+    lookAheadSafe: boolean;
+}
+
+/**
+ * The story's external function bindings by name. inkjs has no public API to list or
+ * swap them, so this reads its private `_externals` map; everything that needs them goes
+ * through here, so an inkjs change only has to be handled once. Changing the map changes
+ * the story's bindings.
+ */
+export function getExternalBindings(story: Story): Map<string, ExternalBinding> {
+    return (story as any)._externals;
+}
+
+/**
+ * Parse a `#storylets:` global tag.
+ * Tag format: #storylets:name  or  #storylets:name,poolName
+ * Returns null for other tags, or if the name is empty.
+ */
+export function parseStoryletsTag(tag: string): { name: string; pool: string } | null {
+    if (!tag.startsWith('storylets:')) return null;
+    const parts = tag.slice('storylets:'.length).split(',');
+    const name = parts[0].trim();
+    const pool = parts.length > 1 ? parts[1].trim() : DEFAULT_POOL;
+    return name ? { name, pool } : null;
+}
+
+/**
+ * Returns true if the named top-level knot looks like an Ink function rather than a
+ * flow knot. Ink doesn't record this in the compiled output, so it is inferred: a
+ * function returns a value, or at least never ends the flow (DONE, END, ->->),
+ * offers choices or diverts away.
+ * Returns false if the knot doesn't exist.
+ */
+export function isInkFunction(story: Story, name: string): boolean {
+    // @ts-ignore
+    const mainContentContainer = story.mainContentContainer || story._mainContentContainer;
+    // @ts-ignore
+    const namedContent = mainContentContainer?.namedOnlyContent || mainContentContainer?.namedContent;
+    const container = namedContent instanceof Map ? namedContent.get(name) : namedContent?.[name];
+    if (!container) return false;
+
+    let returns = false;
+    let endsFlow = false;
+    const visit = (obj: any): void => {
+        if (!obj) return;
+        if (typeof obj.commandType === 'number') {
+            if (obj.commandType === CommandType.PopFunction) returns = true;
+            if (obj.commandType === CommandType.PopTunnel || obj.commandType === CommandType.Done
+                || obj.commandType === CommandType.End) endsFlow = true;
+        } else if (obj.pathOnChoice !== undefined) {
+            endsFlow = true;
+        } else if (obj.targetPath !== undefined || obj.variableDivertName) {
+            // Function calls push to the stack; relative diverts stay inside the function.
+            if (!obj.pushesToStack && !obj.isExternal && !obj.targetPath?.isRelative) endsFlow = true;
+        }
+        if (Array.isArray(obj.content)) obj.content.forEach(visit);
+        const named = obj.namedOnlyContent;
+        if (named) (named instanceof Map ? Array.from(named.values()) : Object.values(named)).forEach(visit);
+    };
+    visit(container);
+
+    return returns || !endsFlow;
+}
+
+// Values of inkjs ControlCommand.CommandType used by isInkFunction().
+enum CommandType {
+    PopFunction = 5,
+    PopTunnel = 6,
+    Done = 19,
+    End = 20
+}
+
+/**
+ * Parse the value of a `#cooldown:` tag.
+ *   "3"           → { count: 3, unit: "picks" }
+ *   "3 picks"     → { count: 3, unit: "picks" }
+ *   "2 refreshes" → { count: 2, unit: "refreshes" }
+ * Returns null if the value is not in one of these forms.
+ */
+export function parseCooldown(raw: string): StoryletCooldown | null {
+    const match = /^(\d+)\s*(picks?|refresh(?:es)?)?$/i.exec(raw);
+    if (!match) return null;
+    const unit = match[2] && match[2].toLowerCase().startsWith('refresh') ? 'refreshes' : 'picks';
+    return { count: parseInt(match[1], 10), unit };
+}
+
+/** Parse the value of a `#weight:` tag: a finite number >= 0, else null. */
+export function parseWeight(raw: string): number | null {
+    const weight = Number(raw);
+    return raw !== '' && Number.isFinite(weight) && weight >= 0 ? weight : null;
+}
+
+/**
+ * Parse an array of raw Ink tag strings into a key/value map.
+ *   #once            → { once: true }
+ *   #desc: Some text → { desc: "Some text" }
+ *   #loc: library    → { loc: "library" }
+ *   #cooldown: 3     → { cooldown: { count: 3, unit: "picks" } }
+ *   #weight: 0.5     → { weight: 0.5 }
+ * Tag names are lowercased. "true"/"false" string values become booleans.
+ */
+export function parseTags(rawTags: string[]): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const tag of rawTags) {
+        const colonIdx = tag.indexOf(':');
+        if (colonIdx === -1) {
+            result[tag.trim().toLowerCase()] = true;
+        } else {
+            const key = tag.slice(0, colonIdx).trim().toLowerCase();
+            const raw = tag.slice(colonIdx + 1).trim();
+            const lower = raw.toLowerCase();
+            if (key === 'cooldown') {
+                const cooldown = parseCooldown(raw);
+                if (!cooldown) console.warn(`[StoryletManager] Invalid cooldown tag "${tag.trim()}" (expected e.g. "cooldown: 3" or "cooldown: 2 refreshes")`);
+                result[key] = cooldown ?? raw;
+            } else if (key === 'weight') {
+                const weight = parseWeight(raw);
+                if (weight === null) console.warn(`[StoryletManager] Invalid weight tag "${tag.trim()}" (expected a number >= 0)`);
+                result[key] = weight ?? raw;
+            } else if (lower === 'true') result[key] = true;
+            else if (lower === 'false') result[key] = false;
+            else result[key] = raw;
+        }
+    }
+    return result;
+}
+
+/** RegExp.test() without the `lastIndex` state a global or sticky regex carries between calls. */
+function testRegExp(regex: RegExp, text: string): boolean {
+    regex.lastIndex = 0;
+    return regex.test(text);
+}
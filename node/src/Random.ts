@@ -0,0 +1,50 @@
+/**
+ * Source of randomness used by StoryletManager for every random decision.
+ * Implementations must be able to snapshot and restore their internal state so
+ * that a restored save continues the exact same sequence.
+ */
+export interface RandomSource {
+    /** Returns a float in the range [0, 1). */
+    next(): number;
+
+    /** Returns a JSON-serialisable snapshot of the internal state. */
+    getState(): any;
+
+    /** Restore internal state from a value previously returned by getState(). */
+    setState(state: any): void;
+}
+
+/**
+ * Small, fast seedable PRNG (mulberry32). The whole state is a single 32-bit
+ * integer, so it round-trips through JSON without loss.
+ *
+ * If no seed is given one is taken from Math.random(), so default behaviour is
+ * still unpredictable — but the sequence can be saved and replayed.
+ */
+export class SeededRandom implements RandomSource {
+    private _state: number;
+
+    constructor(seed?: number) {
+        this._state = (seed ?? Math.floor(Math.random() * 0x100000000)) >>> 0;
+    }
+
+    public next(): number {
+        this._state = (this._state + 0x6D2B79F5) >>> 0;
+        let t = this._state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    }
+
+    public getState(): number {
+        return this._state;
+    }
+
+    public setState(state: any): void {
+        if (typeof state !== 'number') {
+            console.warn('[SeededRandom] Ignoring invalid state:', state);
+            return;
+        }
+        this._state = state >>> 0;
+    }
+}
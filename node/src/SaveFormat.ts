@@ -0,0 +1,168 @@
+/** Current version of the saveAsJson() document. */
+export const SAVE_VERSION = 1;
+
+/** One storylet's entry in a saved pool. */
+export interface SavedStorylet {
+    id: string;
+    /** Number of times played. */
+    count: number;
+    /** Turn on which it was last played, or null if never. */
+    last: number | null;
+    /** Remaining cooldown (picks or refreshes, per the storylet's #cooldown tag). */
+    cooldown: number;
+}
+
+export interface SavedPool {
+    storylets: SavedStorylet[];
+    /** The pool's completed hand as [knotID, weight] pairs, or null if it wasn't ready. */
+    hand: [string, number][] | null;
+    /** State of the pool's SelectionStrategy, if it keeps any. */
+    selection?: any;
+}
+
+/** The document produced by saveAsJson(). */
+export interface SaveData {
+    version: number;
+    /** Turn counter (see getCurrentTurn()). */
+    turn: number;
+    /** RandomSource state, or undefined if not saved. */
+    rng?: any;
+    pools: Record<string, SavedPool>;
+}
+
+/**
+ * Called for every saved storylet while loading, to handle content changes.
+ * Return a new knotID if the knot was renamed, null if it was deliberately
+ * removed (its saved state is dropped), or undefined to keep it as-is.
+ */
+export type SaveMigration = (knotID: string, pool: string, version: number) => string | null | undefined;
+
+export interface LoadOptions {
+    /** Rename or drop saved storylets that no longer match the current content. */
+    migrate?: SaveMigration;
+    /**
+     * Restore saved hands so pools are immediately ready without a refresh.
+     * A hand that mentions a knot no longer in its pool is discarded. Default: true.
+     */
+    restoreHands?: boolean;
+}
+
+/** What loadFromJson() did with each part of the save. */
+export interface LoadReport {
+    /** Version of the document that was loaded (0 for unversioned saves). */
+    version: number;
+    /** Storylets whose state was restored under a new knotID by the migration hook. */
+    renamed: { from: string; to: string; pool: string }[];
+    /** Saved storylets that the migration hook dropped. */
+    removed: { knotID: string; pool: string }[];
+    /** Saved storylets that no longer exist in any pool; their state was not restored. */
+    orphaned: { knotID: string; pool: string }[];
+    /** Saved pool names that are not registered. */
+    unknownPools: string[];
+    /** Registered storylets with no saved state (e.g. newly written content). */
+    unsaved: { knotID: string; pool: string }[];
+    /** Pools whose saved hand was restored, so they are ready without a refresh. */
+    restoredHands: string[];
+}
+
+/** Current version of the saveSnapshot() document. */
+export const SNAPSHOT_VERSION = 1;
+
+/** The document produced by saveSnapshot(): Ink state and storylet state together. */
+export interface SnapshotData {
+    snapshotVersion: number;
+    /** Hash of the compiled Ink content the snapshot was taken with (see getContentHash()). */
+    contentHash: string;
+    /** The Ink story state, as produced by story.state.ToJson(). */
+    ink: any;
+    /** The storylet state, as produced by saveAsJson(). */
+    storylets: SaveData;
+}
+
+export interface SnapshotLoadOptions extends LoadOptions {
+    /**
+     * Load even if the snapshot was taken with different compiled Ink content.
+     * Use `migrate` to handle renamed knots. Default: false (throw instead).
+     */
+    allowContentMismatch?: boolean;
+    /** Start a refresh of all pools after loading. Default: true. */
+    refresh?: boolean;
+}
+
+/** 32-bit FNV-1a hash of a string, as 8 hex digits. Not cryptographic. */
+export function hashString(text: string): string {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Convert any supported save document to the current SaveData shape:
+ *   { "pool": [["knotID", played], ...] }             (bare, from before versioning: version 0)
+ *   { "version", "turn", "rng", "pools": { ... } }    (SaveData)
+ * Throws if the document is malformed, or from a newer version than this code understands.
+ */
+export function upgradeSaveData(raw: any): SaveData {
+    if (!isRecord(raw)) throw invalidSave('expected an object');
+    // A bare save maps pool names straight to entry arrays, so there "version" would be a pool.
+    if (raw.version === undefined || Array.isArray(raw.version)) return upgradeBareSave(raw);
+
+    const { version, turn, pools } = raw;
+    if (!Number.isInteger(version) || version < 1) {
+        throw invalidSave(`"version" must be a positive integer, got ${JSON.stringify(version)}`);
+    }
+    if (version > SAVE_VERSION) {
+        throw new Error(`[StoryletManager] Save version ${version} is newer than supported version ${SAVE_VERSION}`);
+    }
+    if (typeof turn !== 'number') throw invalidSave('"turn" must be a number');
+    if (!isRecord(pools)) throw invalidSave('"pools" must be an object');
+    for (const [poolName, pool] of Object.entries(pools)) {
+        if (!isRecord(pool) || !Array.isArray(pool.storylets) || !isSavedHand(pool.hand)) {
+            throw invalidSave(`pool "${poolName}" must have a "storylets" array and a "hand" array or null`);
+        }
+        const entry = pool.storylets.find((s: unknown) => !isSavedStorylet(s));
+        if (entry !== undefined) throw invalidSave(`pool "${poolName}" has a malformed storylet entry ${JSON.stringify(entry)}`);
+    }
+    return raw as unknown as SaveData;
+}
+
+function upgradeBareSave(raw: Record<string, unknown>): SaveData {
+    const pools: Record<string, SavedPool> = {};
+    for (const [poolName, entries] of Object.entries(raw)) {
+        if (!Array.isArray(entries)) throw invalidSave(`pool "${poolName}" must be an array of [knotID, played] entries`);
+        pools[poolName] = {
+            storylets: entries.map((entry): SavedStorylet => {
+                if (!Array.isArray(entry) || typeof entry[0] !== 'string') {
+                    throw invalidSave(`pool "${poolName}" has a malformed entry ${JSON.stringify(entry)}`);
+                }
+                return { id: entry[0], count: entry[1] ? 1 : 0, last: null, cooldown: 0 };
+            }),
+            hand: null
+        };
+    }
+    return { version: 0, turn: 0, pools };
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSavedStorylet(value: unknown): value is SavedStorylet {
+    return isRecord(value)
+        && typeof value.id === 'string'
+        && typeof value.count === 'number'
+        && (value.last === null || typeof value.last === 'number')
+        && typeof value.cooldown === 'number';
+}
+
+function isSavedHand(value: unknown): value is SavedPool['hand'] {
+    return value === null
+        || Array.isArray(value) && value.every(e => Array.isArray(e) && typeof e[0] === 'string' && typeof e[1] === 'number');
+}
+
+function invalidSave(problem: string): Error {
+    return new Error(`[StoryletManager] Invalid save data: ${problem}`);
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { LintOptions, formatLintIssue, lintStorylets } from './StoryletLinter';
+
+const USAGE = `Usage: ink-storylet-lint <story.json> [options]
+
+Checks compiled Ink JSON for storylet mistakes that otherwise fail silently.
+Pools declared with #storylets: global tags are always checked.
+
+Options:
+  --storylets <name[,pool]>  Also check storylets registered in code (repeatable)
+  --tags <schema.json>       Tag schema, e.g. { "desc": "string", "priority": "integer",
+                             "rare": "flag", "mood": ["calm", "tense"] }; values are checked
+                             against their types and any other tag is reported
+  --strict                   Exit with an error code on warnings too
+  --help                     Show this message`;
+
+function main(argv: string[]): number {
+    let storyPath: string | null = null;
+    let strict = false;
+    const options: LintOptions = { storylets: [] };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            return 0;
+        } else if (arg === '--strict') {
+            strict = true;
+        } else if (arg === '--storylets' && i + 1 < argv.length) {
+            const [name, pool] = argv[++i].split(',').map(s => s.trim());
+            options.storylets!.push({ name, pool: pool || undefined });
+        } else if (arg === '--tags' && i + 1 < argv.length) {
+            options.tags = JSON.parse(readJson(argv[++i]));
+        } else if (!arg.startsWith('--') && storyPath === null) {
+            storyPath = arg;
+        } else {
+            console.error(`Unexpected argument: ${arg}\n\n${USAGE}`);
+            return 2;
+        }
+    }
+
+    if (storyPath === null) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const issues = lintStorylets(readJson(storyPath), options);
+    for (const issue of issues) console.log(formatLintIssue(issue));
+
+    const errors = issues.filter(i => i.severity === 'error').length;
+    const warnings = issues.length - errors;
+    console.log(`${storyPath}: ${errors} error(s), ${warnings} warning(s)`);
+    return errors > 0 || (strict && warnings > 0) ? 1 : 0;
+}
+
+function readJson(path: string): string {
+    // Compiled Ink JSON is often written with a BOM.
+    return readFileSync(path, 'utf8').replace(/^\uFEFF/, '');
+}
+
+try {
+    process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+    console.error(`ink-storylet-lint: ${e instanceof Error ? e.message : e}`);
+    process.exitCode = 2;
+}
@@ -0,0 +1,216 @@
+import { Story } from 'inkjs';
+import {
+    DEFAULT_POOL, StoryletMatcher, findGroupPredicates, findStoryletGroup, getAllKnotIDs, getKnotTags, isInkFunction, parseCooldown,
+    parseStoryletsTag, parseWeight
+} from './InkContent';
+import { BUILTIN_TAGS, TagDefinition, TagSchema, normalizeSchema, parseTagValue } from './TagSchema';
+
+export type { TagSchema } from './TagSchema';
+export { BUILTIN_TAGS } from './TagSchema';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+    | 'empty-pool'              // a storylet name whose `name_` prefix (or matcher) matches no knots
+    | 'orphan-predicate'        // `_name_foo` with no `name_foo` knot
+    | 'predicate-not-function'  // a storylet or group predicate that is a knot, not a function
+    | 'storylet-is-function'    // a function registered as a storylet because of its prefix
+    | 'duplicate-storylet'      // a knot registered into more than one distinct pool
+    | 'unknown-tag'             // a tag not in the schema, or a likely misspelling
+    | 'invalid-tag';            // a known tag with a missing or malformed value
+
+export interface LintIssue {
+    severity: LintSeverity;
+    code: LintCode;
+    message: string;
+    knotID?: string;
+    pool?: string;
+}
+
+export interface LintOptions {
+    /**
+     * Storylets registered in code via addStorylets(name, pool) — or, with `match`,
+     * addStoryletsMatching(name, match, pool) — in addition to the `#storylets:` global
+     * tags, which are always read.
+     */
+    storylets?: { name: string; pool?: string; match?: StoryletMatcher }[];
+    /**
+     * Custom tags your storylets may use, with their types (the same schema as the
+     * StoryletManager `tags` option). Values that don't match their type are reported.
+     * If given, any tag not in this schema or BUILTIN_TAGS is reported; if omitted,
+     * only likely misspellings of known tags are.
+     */
+    tags?: TagSchema;
+}
+
+/**
+ * Statically check storylet content for mistakes that otherwise fail silently.
+ * `content` is a Story or compiled Ink JSON (string or parsed). Storylets are
+ * discovered exactly as StoryletManager would discover them.
+ */
+export function lintStorylets(content: Story | string | object, options: LintOptions = {}): LintIssue[] {
+    const story = content instanceof Story
+        ? content
+        : new Story(typeof content === 'string' ? content.replace(/^\uFEFF/, '') : content as any);
+    const issues: LintIssue[] = [];
+    const allKnots = getAllKnotIDs(story);
+    const knotSet = new Set(allKnots);
+
+    const registrations: { name: string; pool: string; source: string; match?: StoryletMatcher }[] = [];
+    for (const tag of story.globalTags ?? []) {
+        const parsed = parseStoryletsTag(tag);
+        if (parsed) registrations.push({ ...parsed, source: `#${tag}` });
+    }
+    for (const { name, pool = DEFAULT_POOL, match } of options.storylets ?? []) {
+        const source = match ? `addStoryletsMatching("${name}", ..., "${pool}")` : `addStorylets("${name}", "${pool}")`;
+        registrations.push({ name, pool, source, match });
+    }
+    const groupNames = new Set(registrations.map(r => r.name));
+
+    const schema = normalizeSchema({ ...options.tags, ...BUILTIN_TAGS });
+
+    const poolsByKnot = new Map<string, Set<string>>();
+    // Group predicates for deeper levels, e.g. `_world_town` under "world".
+    const nestedGroupPredicates = new Set<string>();
+
+    for (const { name, pool, source, match } of registrations) {
+        const { knotIDs, groupPredicate } = findStoryletGroup(allKnots, name, match);
+
+        if (knotIDs.length === 0) {
+            issues.push({ severity: 'warning', code: 'empty-pool', pool,
+                message: match ? `${source}: no knots match` : `${source}: no knots start with "${name}_"` });
+        }
+        const groupPredicates = new Set(groupPredicate ? [groupPredicate] : []);
+        if (!match) {
+            for (const knotID of knotIDs) {
+                for (const gp of findGroupPredicates(knotID, name, knotSet)) {
+                    if (gp !== groupPredicate) nestedGroupPredicates.add(gp);
+                    groupPredicates.add(gp);
+                }
+            }
+        }
+        for (const gp of groupPredicates) {
+            if (!isInkFunction(story, gp)) {
+                issues.push({ severity: 'error', code: 'predicate-not-function', knotID: gp, pool,
+                    message: `Group predicate "${gp}" is a knot, not a function` });
+            }
+        }
+
+        for (const knotID of knotIDs) {
+            const pools = poolsByKnot.get(knotID);
+            if (pools) {
+                pools.add(pool);
+                continue; // Already checked
+            }
+            poolsByKnot.set(knotID, new Set([pool]));
+
+            if (isInkFunction(story, knotID)) {
+                issues.push({ severity: 'warning', code: 'storylet-is-function', knotID, pool,
+                    message: `"${knotID}" is a function but its name registers it as a storylet` });
+            }
+            const predicate = '_' + knotID;
+            if (knotSet.has(predicate) && !isInkFunction(story, predicate)) {
+                issues.push({ severity: 'error', code: 'predicate-not-function', knotID, pool,
+                    message: `Predicate "${predicate}" is a knot, not a function` });
+            }
+            issues.push(...lintTags(getKnotTags(story, knotID), schema, options.tags !== undefined, knotID, pool));
+        }
+    }
+
+    // Registering a knot again in the same pool is a no-op for the manager, so only
+    // distinct pools count (e.g. `#storylets:world` and `#storylets:world_town` overlap).
+    for (const [knotID, pools] of poolsByKnot) {
+        if (pools.size > 1) {
+            issues.push({ severity: 'error', code: 'duplicate-storylet', knotID,
+                message: `"${knotID}" is registered in more than one pool (pools: ${Array.from(pools).join(', ')})` });
+        }
+    }
+
+    for (const knotID of allKnots) {
+        if (!knotID.startsWith('_')) continue;
+        const target = knotID.slice(1);
+        if (knotSet.has(target) || groupNames.has(target) || nestedGroupPredicates.has(knotID)) continue;
+        if (Array.from(groupNames).some(name => target.startsWith(name + '_'))) {
+            issues.push({ severity: 'warning', code: 'orphan-predicate', knotID,
+                message: `Predicate "${knotID}" has no matching storylet knot "${target}"` });
+        }
+    }
+
+    return issues;
+}
+
+/** Format an issue as a single line, e.g. for console output. */
+export function formatLintIssue(issue: LintIssue): string {
+    const where = issue.knotID ? ` ${issue.knotID}` : issue.pool ? ` (pool "${issue.pool}")` : '';
+    return `${issue.severity.padEnd(7)} [${issue.code}]${where}: ${issue.message}`;
+}
+
+function lintTags(
+    rawTags: string[],
+    schema: Map<string, TagDefinition>,
+    strict: boolean,
+    knotID: string,
+    pool: string
+): LintIssue[] {
+    const issues: LintIssue[] = [];
+    for (const tag of rawTags) {
+        const colonIdx = tag.indexOf(':');
+        const key = (colonIdx === -1 ? tag : tag.slice(0, colonIdx)).trim().toLowerCase();
+        const value = colonIdx === -1 ? null : tag.slice(colonIdx + 1).trim();
+        const kind = schema.get(key);
+
+        if (kind === undefined) {
+            const suggestion = closestTag(key, Array.from(schema.keys()));
+            if (strict || suggestion) {
+                issues.push({ severity: 'warning', code: 'unknown-tag', knotID, pool,
+                    message: `Unknown tag "#${tag.trim()}"` + (suggestion ? ` — did you mean "#${suggestion}"?` : '') });
+            }
+        } else if (kind === 'flag' && value !== null && !/^(true|false)$/i.test(value)) {
+            issues.push({ severity: 'warning', code: 'invalid-tag', knotID, pool,
+                message: `Tag "#${key}" takes no value, got "${value}"` });
+        } else if (kind !== 'flag' && kind !== 'boolean' && !value) {
+            issues.push({ severity: 'warning', code: 'invalid-tag', knotID, pool,
+                message: `Tag "#${key}" needs a value (e.g. "#${key}: ...")` });
+        } else if (key === 'cooldown' && value && !parseCooldown(value)) {
+            issues.push({ severity: 'error', code: 'invalid-tag', knotID, pool,
+                message: `Invalid cooldown "${value}" (expected e.g. "3" or "2 refreshes")` });
+        } else if (key === 'weight' && value && parseWeight(value) === null) {
+            issues.push({ severity: 'error', code: 'invalid-tag', knotID, pool,
+                message: `Invalid weight "${value}" (expected a number >= 0)` });
+        } else if (kind !== 'flag' && !(key in BUILTIN_TAGS)) {
+            const { error } = parseTagValue(value, kind);
+            if (error !== undefined) {
+                issues.push({ severity: 'error', code: 'invalid-tag', knotID, pool,
+                    message: `Tag "#${tag.trim()}": ${error}` });
+            }
+        }
+    }
+    return issues;
+}
+
+/** The known tag closest to `key` by edit distance, if close enough to be a typo. */
+function closestTag(key: string, known: string[]): string | null {
+    const maxDistance = key.length <= 4 ? 1 : 2;
+    let best: string | null = null;
+    let bestDistance = maxDistance + 1;
+    for (const name of known) {
+        const d = editDistance(key, name);
+        if (d < bestDistance) {
+            best = name;
+            bestDistance = d;
+        }
+    }
+    return best;
+}
+
+function editDistance(a: string, b: string): number {
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const row = [i];
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = row;
+    }
+    return prev[b.length];
+}
@@ -0,0 +1,70 @@
+import { readFileSync, watch } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { Story } from 'inkjs';
+import type { ReplaceStoryOptions, ReplaceStoryReport, StoryletManager } from './StoryletManager';
+
+/** Options for watchStory(), including those passed on to replaceStory(). */
+export interface WatchStoryOptions extends ReplaceStoryOptions {
+    /**
+     * Reload this many milliseconds after the last change, so a compile that writes the
+     * file in several steps reloads once. Default: 100.
+     */
+    debounceMs?: number;
+    /** Called with each new Story before it replaces the old one, e.g. to bind external functions. */
+    prepare?: (story: Story) => void;
+    /** Called after each reload with replaceStory()'s report. */
+    onReload?: (report: ReplaceStoryReport) => void;
+    /**
+     * Called if the file can't be read or parsed (say, half-written) or the reload throws;
+     * the current story stays in place. Default: log the error.
+     */
+    onError?: (error: unknown) => void;
+}
+
+/**
+ * Watch a compiled Ink JSON file and hot-reload it into `manager` with replaceStory()
+ * each time it changes — for development, alongside a compiler in watch mode.
+ * Returns a function that stops watching.
+ *
+ *   const stop = watchStory(manager, 'story.ink.json', {
+ *       onReload: ({ added, removed }) => console.log('Reloaded', added, removed)
+ *   });
+ */
+export function watchStory(manager: StoryletManager, path: string, options: WatchStoryOptions = {}): () => void {
+    const {
+        debounceMs = 100,
+        prepare,
+        onReload,
+        onError = (error: unknown) => console.error(`[StoryletWatcher] Could not reload ${path}:`, error),
+        ...replaceOptions
+    } = options;
+    const file = resolve(path);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const reload = () => {
+        timer = null;
+        let report: ReplaceStoryReport;
+        try {
+            const story = new Story(readFileSync(file, 'utf8').replace(/^\uFEFF/, ''));
+            prepare?.(story);
+            report = manager.replaceStory(story, replaceOptions);
+        } catch (error) {
+            onError(error);
+            return;
+        }
+        onReload?.(report);
+    };
+
+    // Watch the directory, since compilers and editors often replace the file rather than rewrite it.
+    const watcher = watch(dirname(file), (_event, filename) => {
+        if (filename !== null && filename.toString() !== basename(file)) return;
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(reload, debounceMs);
+    });
+
+    return () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        watcher.close();
+    };
+}
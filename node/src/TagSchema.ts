@@ -0,0 +1,121 @@
+import { parseTags } from './InkContent';
+
+/**
+ * Declared types for storylet tags. Shared by StoryletManager, which parses tag values
+ * to these types at registration, and the linter, which validates them statically.
+ *
+ *   'flag'    bare tag (`#rare`) → true; also accepts "true"/"false"
+ *   'boolean' "true"/"false" (case-insensitive); a bare tag is true
+ *   'string'  any non-empty value, trimmed
+ *   'value'   same as 'string'
+ *   'number'  any finite number (`#chance: 0.25`)
+ *   'integer' a whole number (`#priority: 5`)
+ *   'list'    comma-separated strings (`#npcs: guard, king`) → ["guard", "king"]
+ *   [...]     an enum: one of the given strings (`['calm', 'tense'] as const`),
+ *             matched case-insensitively and returned as declared
+ */
+export type TagType = 'flag' | 'boolean' | 'string' | 'value' | 'number' | 'integer' | 'list';
+
+export type TagDefinition = TagType | readonly string[];
+
+/** Tag name → declared type. Names are case-insensitive. */
+export type TagSchema = Record<string, TagDefinition>;
+
+/** The TypeScript type a tag definition parses to. */
+export type TagValue<D> =
+    D extends 'flag' | 'boolean' ? boolean :
+    D extends 'number' | 'integer' ? number :
+    D extends 'list' ? string[] :
+    D extends readonly (infer E)[] ? E :
+    string;
+
+/** Parsed tags of a storylet under schema `S`. Any tag may be absent. */
+export type TagValues<S extends TagSchema> = { [K in keyof S]?: TagValue<S[K]> };
+
+/** A tag whose value didn't match its declared type. The tag is left unset. */
+export interface TagError {
+    knotID: string;
+    tag: string;
+    message: string;
+}
+
+/**
+ * Tags the framework itself understands. Always part of the schema, and always
+ * parsed by parseTags() (a user schema can't redeclare them).
+ */
+export const BUILTIN_TAGS: TagSchema = {
+    once: 'flag',
+    cooldown: 'value',
+    weight: 'number'
+};
+
+/**
+ * Parse a tag's raw value (null for a bare tag) as `definition`.
+ * Returns the value, or an error message if it doesn't match.
+ */
+export function parseTagValue(raw: string | null, definition: TagDefinition): { value?: any; error?: string } {
+    if (typeof definition !== 'string') {
+        const match = raw === null ? undefined : definition.find(v => v.toLowerCase() === raw.toLowerCase());
+        return match !== undefined ? { value: match } : { error: `expected one of ${definition.join(', ')}` };
+    }
+
+    if (definition === 'flag' || definition === 'boolean') {
+        if (raw === null) return { value: true };
+        if (/^(true|false)$/i.test(raw)) return { value: raw.toLowerCase() === 'true' };
+        return { error: definition === 'flag' ? 'takes no value' : 'expected true or false' };
+    }
+
+    if (!raw) return { error: 'needs a value' };
+
+    switch (definition) {
+        case 'number':
+        case 'integer': {
+            const value = Number(raw);
+            if (!Number.isFinite(value)) return { error: 'expected a number' };
+            if (definition === 'integer' && !Number.isInteger(value)) return { error: 'expected a whole number' };
+            return { value };
+        }
+        case 'list':
+            return { value: raw.split(',').map(s => s.trim()).filter(s => s !== '') };
+        default:
+            return { value: raw };
+    }
+}
+
+/**
+ * Parse raw Ink tags, converting the tags declared in `schema` to their types.
+ * Undeclared tags are parsed as by parseTags(). A declared tag whose value doesn't
+ * match is left out of `tags` and reported in `errors`.
+ */
+export function parseTypedTags(
+    rawTags: string[],
+    schema: TagSchema,
+    knotID: string
+): { tags: Record<string, any>; errors: TagError[] } {
+    const tags = parseTags(rawTags);
+    const errors: TagError[] = [];
+    const definitions = normalizeSchema(schema);
+
+    for (const tag of rawTags) {
+        const colonIdx = tag.indexOf(':');
+        const key = (colonIdx === -1 ? tag : tag.slice(0, colonIdx)).trim().toLowerCase();
+        const definition = definitions.get(key);
+        if (definition === undefined || key in BUILTIN_TAGS) continue;
+
+        const { value, error } = parseTagValue(colonIdx === -1 ? null : tag.slice(colonIdx + 1).trim(), definition);
+        if (error !== undefined) {
+            delete tags[key];
+            errors.push({ knotID, tag: key, message: `Tag "#${tag.trim()}": ${error}` });
+        } else {
+            tags[key] = value;
+        }
+    }
+    return { tags, errors };
+}
+
+/** The schema with lowercased tag names. */
+export function normalizeSchema(schema: TagSchema): Map<string, TagDefinition> {
+    const result = new Map<string, TagDefinition>();
+    for (const [name, definition] of Object.entries(schema)) result.set(name.toLowerCase(), definition);
+    return result;
+}
@@ -1,5 +1,5 @@
 import { Story } from 'inkjs';
-import { StoryletManager } from '../src/StoryletManager';
+import { StoryletManager, StoryletPlayer } from '../src/StoryletManager';
 import { runUntilReady } from '../src/StoryletRunner';
 import storyContent from '../../tests/test1/test.ink.json';
 import * as readline from 'readline';
@@ -25,19 +25,20 @@ async function main() {
         const story = new Story(storyContent);
 
         const manager = new StoryletManager(story);
+        // Marks storylets played when they finish, then refreshes and ticks all pools.
+        const player = new StoryletPlayer(manager);
 
-        // onRefreshComplete now receives the pool name that just finished refreshing.
-        manager.onRefreshComplete = (pool: string) => {
+        // refreshComplete fires with the pool name that just finished refreshing.
+        manager.on('refreshComplete', ({ pool }) => {
             log(`Refresh Complete for pool "${pool}"! Playable storylets available.`, 'success');
             const hand = manager.getPlayableStorylets(false, pool);
             if (hand) {
                 console.log(`\nPlayable Storylets [${pool}]:`, hand);
             }
-            // Only prompt the user once all registered pools are ready.
-            if (manager.areAllReady()) {
-                promptUser(manager, story);
-            }
-        };
+        });
+
+        // Only prompt the user once all registered pools are ready.
+        manager.on('allReady', () => promptUser(manager, player));
 
         //log('Scanning and adding storylets with prefix "story_" into the default pool...', 'info');
         //manager.addStorylets("story_");
@@ -54,7 +55,7 @@ async function main() {
     }
 }
 
-function promptUser(manager: StoryletManager, story: Story) {
+function promptUser(manager: StoryletManager, player: StoryletPlayer) {
     rl.question('\nOptions: (p)ick storylet, (r)efresh, (q)uit > ', (answer) => {
         const choice = answer.trim().toLowerCase();
 
@@ -69,57 +70,49 @@ function promptUser(manager: StoryletManager, story: Story) {
         } else if (choice === 'p') {
             if (!manager.isReady()) {
                 log('Manager not ready.', 'error');
-                promptUser(manager, story);
+                promptUser(manager, player);
                 return;
             }
 
-            const picked = manager.pickPlayableStorylet();
+            const picked = player.playNext();
             if (picked) {
                 log(`Picked storylet: ${picked}`, 'success');
-                playStorylet(picked, story, manager);
+                console.log(`\n--- Playing: ${picked} ---`);
+                continueStory(player);
             } else {
                 log('No playable storylets found.', 'info');
-                promptUser(manager, story);
+                promptUser(manager, player);
             }
         } else {
-            promptUser(manager, story);
+            promptUser(manager, player);
         }
     });
 }
 
-function playStorylet(knotID: string, story: Story, manager: StoryletManager) {
-    console.log(`\n--- Playing: ${knotID} ---`);
-    story.ChoosePathString(knotID);
-    continueStory(story, manager);
-}
-
-function continueStory(story: Story, manager: StoryletManager) {
-    while (story.canContinue) {
-        const text = story.Continue();
-        console.log(text?.trim());
+function continueStory(player: StoryletPlayer) {
+    for (const line of player.continueMaximally()) {
+        console.log(line.text.trim());
     }
 
-    if (story.currentChoices.length > 0) {
+    const choices = player.getChoices();
+    if (!player.isPlaying()) {
+        // The player has marked it played and started the refresh; allReady prompts again.
+        log("Storylet finished.", 'info');
+    } else if (choices.length > 0) {
         console.log('\nChoices:');
-        story.currentChoices.forEach((choice, index) => {
+        choices.forEach((choice, index) => {
             console.log(`${index + 1}. ${choice.text}`);
         });
 
         rl.question('> ', (answer) => {
             const idx = parseInt(answer) - 1;
-            if (idx >= 0 && idx < story.currentChoices.length) {
-                story.ChooseChoiceIndex(idx);
-                continueStory(story, manager);
+            if (idx >= 0 && idx < choices.length) {
+                player.choose(choices[idx].index);
             } else {
                 console.log('Invalid choice.');
-                continueStory(story, manager); // ask again
             }
+            continueStory(player); // ask again if invalid
         });
-    } else {
-        log("Storylet finished.", 'info');
-        // Auto-refresh all pools after play
-        manager.refresh();
-        runUntilReady(manager);
     }
 }
 
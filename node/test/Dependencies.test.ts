@@ -0,0 +1,189 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { trackReads } from '../src/Dependencies';
+import { compileStory, createManager, refreshNow } from './helpers';
+
+const INK = `
+#storylets:d
+VAR gold = 0
+VAR level = 1
+VAR weather = "sun"
+EXTERNAL storylet_play_count(knotID)
+EXTERNAL roll()
+-> DONE
+=== function _d_rich()
+~ temp needed = 10
+~ return gold >= needed
+=== d_rich
+rich
+-> DONE
+=== function _d_veteran()
+~ return level > 1 && storylet_play_count("d_rich") > 0
+=== d_veteran
+veteran
+-> DONE
+=== function _d_seen()
+~ return d_rich > 0
+=== d_seen
+seen
+-> DONE
+=== function _d_dice()
+~ return RANDOM(1, 6) > 3
+=== d_dice
+dice
+-> DONE
+=== function _d_rolled()
+~ return roll()
+=== d_rolled
+rolled
+-> DONE
+=== d_free
+free
+-> DONE
+`;
+
+/** A manager with `roll` bound, counting how often each Ink function is evaluated. */
+function setup() {
+    const manager = createManager(INK);
+    manager.getStory().BindExternalFunction('roll', () => true);
+    const calls: Record<string, number> = {};
+    manager.getStory().onEvaluateFunction = name => calls[name] = (calls[name] ?? 0) + 1;
+    return { manager, story: manager.getStory(), calls };
+}
+
+/** The story alone, with its external functions bound. */
+function compileBound() {
+    const story = compileStory(INK);
+    story.BindExternalFunction('storylet_play_count', () => 0);
+    story.BindExternalFunction('roll', () => true);
+    return story;
+}
+
+describe('trackReads', () => {
+    it('records global variables read, not temporaries', () => {
+        const story = compileBound();
+        const { result, dependencies } = trackReads(story, new Set(), () => story.EvaluateFunction('_d_rich'));
+
+        assert.equal(result, false);
+        assert.deepEqual(dependencies, { variables: ['gold'], playHistory: false, volatile: false });
+    });
+
+    it('marks play history, visit counts, RANDOM() and other external functions', () => {
+        const story = compileBound();
+        const track = (fn: string) => trackReads(story, new Set(['storylet_play_count']), () => story.EvaluateFunction(fn)).dependencies;
+
+        assert.deepEqual(track('_d_veteran'), { variables: ['level'], playHistory: true, volatile: false });
+        assert.ok(track('_d_seen').volatile);
+        assert.ok(track('_d_dice').volatile);
+        assert.ok(track('_d_rolled').volatile);
+    });
+
+    it('removes its wrappers afterwards, even if evaluation throws', () => {
+        const story = compileStory(INK);  // `roll` isn't bound, so evaluating throws
+        const own = (target: object, name: string) => Object.prototype.hasOwnProperty.call(target, name);
+
+        assert.throws(() => trackReads(story, new Set(), () => story.EvaluateFunction('_d_rolled')));
+        assert.ok(!own(story, 'CallExternalFunction'));
+        for (const name of ['IncrementVisitCountForContainer', 'VisitCountForContainer', 'TurnsSinceForContainer', 'currentTurnIndex']) {
+            assert.ok(!own(story.state, name), name);
+        }
+    });
+});
+
+describe('incrementalRefresh', () => {
+    it('re-evaluates only predicates whose inputs changed', () => {
+        const { manager, story, calls } = setup();
+        manager.incrementalRefresh = true;
+        refreshNow(manager);
+        assert.deepEqual(calls, { _d_rich: 1, _d_veteran: 1, _d_seen: 1, _d_dice: 1, _d_rolled: 1 });
+
+        refreshNow(manager);
+        assert.deepEqual(calls, { _d_rich: 1, _d_veteran: 1, _d_seen: 2, _d_dice: 2, _d_rolled: 2 });
+
+        story.variablesState['gold'] = 20;
+        story.variablesState['weather'] = 'rain';
+        refreshNow(manager);
+        assert.equal(calls['_d_rich'], 2);
+        assert.equal(calls['_d_veteran'], 1);
+        assert.ok(manager.getPlayableStorylets()!.includes('d_rich'));
+    });
+
+    it('re-evaluates predicates reading play history after markPlayed()', () => {
+        const { manager, story, calls } = setup();
+        manager.incrementalRefresh = true;
+        story.variablesState['level'] = 2;
+        refreshNow(manager);
+        assert.ok(!manager.getPlayableStorylets()!.includes('d_veteran'));
+
+        manager.markPlayed('d_rich');
+        refreshNow(manager);
+        assert.equal(calls['_d_veteran'], 2);
+        assert.ok(manager.getPlayableStorylets()!.includes('d_veteran'));
+    });
+
+    it('re-evaluates everything after invalidateStorylets()', () => {
+        const { manager, calls } = setup();
+        manager.incrementalRefresh = true;
+        refreshNow(manager);
+        manager.invalidateStorylets();
+        refreshNow(manager);
+
+        assert.equal(calls['_d_rich'], 2);
+    });
+
+    it('reports what each predicate read', () => {
+        const { manager } = setup();
+        manager.incrementalRefresh = true;
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getStoryletDependencies('d_rich'), { variables: ['gold'], playHistory: false, volatile: false });
+        assert.equal(manager.getStoryletDependencies('d_dice')!.volatile, true);
+    });
+});
+
+describe('autoMarkNeedsRefresh', () => {
+    it('invalidates a ready pool when a variable its predicates read changes', () => {
+        const { manager, story } = setup();
+        manager.autoMarkNeedsRefresh = true;
+        refreshNow(manager);
+        const invalidated: string[] = [];
+        manager.on('poolInvalidated', ({ pool, variable }) => invalidated.push(`${pool}:${variable}`));
+
+        story.variablesState['weather'] = 'rain';
+        assert.deepEqual(invalidated, []);
+        assert.ok(manager.isReady());
+
+        story.variablesState['gold'] = 20;
+        assert.deepEqual(invalidated, ['default:gold']);
+        assert.ok(manager.needsRefresh());
+
+        story.variablesState['level'] = 2;
+        assert.deepEqual(invalidated, ['default:gold']);
+    });
+});
+
+describe('with incrementalRefresh and autoMarkNeedsRefresh off', () => {
+    it("doesn't record reads or observe variables", t => {
+        const { manager, story, calls } = setup();
+        const observe = t.mock.method(story, 'ObserveVariable');
+        refreshNow(manager);
+        refreshNow(manager);
+
+        assert.equal(observe.mock.callCount(), 0);
+        assert.equal(manager.getStoryletDependencies('d_rich'), null);
+        assert.equal(calls['_d_rich'], 2);
+    });
+
+    it('starts recording from the next refresh once an option is turned on', () => {
+        const { manager, story } = setup();
+        refreshNow(manager);
+        manager.incrementalRefresh = true;
+        manager.autoMarkNeedsRefresh = true;
+        refreshNow(manager);
+        const invalidated: string[] = [];
+        manager.on('poolInvalidated', ({ variable }) => invalidated.push(variable));
+
+        story.variablesState['gold'] = 20;
+        assert.deepEqual(invalidated, ['gold']);
+    });
+});
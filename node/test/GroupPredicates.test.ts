@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createManager, refreshNow } from './helpers';
+
+const INK = `
+#storylets:world
+VAR world = true
+VAR town = true
+VAR tavern = false
+-> DONE
+=== function _world()
+~ return world
+=== function _world_town()
+~ return town
+=== function _world_town_tavern()
+~ return tavern
+=== world_field_1
+field
+-> DONE
+=== world_town_square
+square
+-> DONE
+=== world_town_tavern_drink
+drink
+-> DONE
+=== world_town_tavern_fight
+fight
+-> DONE
+`;
+
+/** A manager recording the name of every Ink function evaluated. */
+function setup() {
+    const manager = createManager(INK);
+    const calls: string[] = [];
+    manager.getStory().onEvaluateFunction = name => calls.push(name);
+    return { manager, story: manager.getStory(), calls };
+}
+
+describe('nested group predicates', () => {
+    it('gate each level of the name', () => {
+        const { manager, story } = setup();
+        refreshNow(manager);
+        assert.deepEqual(manager.getPlayableStorylets(), ['world_field_1', 'world_town_square']);
+
+        story.variablesState['tavern'] = true;
+        refreshNow(manager);
+        assert.deepEqual(manager.getPlayableStorylets(), [
+            'world_field_1', 'world_town_square', 'world_town_tavern_drink', 'world_town_tavern_fight'
+        ]);
+
+        story.variablesState['world'] = false;
+        refreshNow(manager);
+        assert.deepEqual(manager.getPlayableStorylets(), []);
+    });
+
+    it('are evaluated outermost first, once per refresh', () => {
+        const { manager, story, calls } = setup();
+        story.variablesState['tavern'] = true;
+        refreshNow(manager);
+
+        assert.deepEqual(calls.filter(name => name.startsWith('_world')), ['_world', '_world_town', '_world_town_tavern']);
+    });
+
+    it('skip everything below a level that fails, including deeper group predicates', () => {
+        const { manager, story, calls } = setup();
+        story.variablesState['town'] = false;
+        story.variablesState['tavern'] = true;
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStorylets(), ['world_field_1']);
+        assert.ok(!calls.includes('_world_town_tavern'));
+    });
+
+    it('invalidate a ready pool when a variable they read changes', () => {
+        const { manager, story } = setup();
+        manager.autoMarkNeedsRefresh = true;
+        refreshNow(manager);
+
+        story.variablesState['tavern'] = true;
+        assert.ok(manager.needsRefresh());
+    });
+
+    it('are listed level by level by explainStorylet()', () => {
+        const { manager } = setup();
+        const gate = manager.explainStorylet('world_town_tavern_drink')!.gates.find(g => g.gate === 'group')!;
+
+        assert.equal(gate.passed, false);
+        assert.match(gate.detail, /_world\(\).*; .*_world_town\(\).*; .*_world_town_tavern\(\)/);
+    });
+
+    it('only apply at the top level for addStoryletsMatching()', () => {
+        const manager = createManager(INK.replace('#storylets:world\n', ''));
+        manager.addStoryletsMatching('world', /^world_town_/);
+        refreshNow(manager);
+
+        // _world() passes and _world_town_tavern() isn't consulted.
+        assert.deepEqual(manager.getPlayableStorylets(), [
+            'world_town_square', 'world_town_tavern_drink', 'world_town_tavern_fight'
+        ]);
+    });
+
+    it("don't apply to storylets registered one knot at a time", () => {
+        const manager = createManager(INK.replace('#storylets:world\n', ''));
+        manager.addStorylet('world_town_tavern_drink');
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStorylets(), ['world_town_tavern_drink']);
+    });
+
+    it("fail refresh() with predicateErrorPolicy 'rethrow' when a nested level throws", () => {
+        const manager = createManager(INK.replace('~ return tavern', '~ return RANDOM(5, 1)'));
+        manager.predicateErrorPolicy = 'rethrow';
+        const failed: string[] = [];
+        manager.on('refreshFailed', ({ knotID }) => failed.push(knotID));
+
+        assert.throws(() => manager.refresh());
+        assert.deepEqual(failed, ['_world_town_tavern']);
+        assert.ok(manager.needsRefresh());
+    });
+});
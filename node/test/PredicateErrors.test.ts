@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ManualScheduler } from '../src/Scheduler';
+import { runUntilReady } from '../src/StoryletRunner';
+import { createManager, refreshNow } from './helpers';
+
+const INK = `
+#storylets:e
+EXTERNAL missing()
+-> DONE
+=== e_bad
+bad
+-> DONE
+=== function _e_bad()
+~ return missing()
+=== e_ok
+ok
+-> DONE
+`;
+
+// Two pools, so a group predicate throws while refresh() is part-way through the pools.
+const GROUP_INK = `
+#storylets:e
+#storylets:g,grouped
+EXTERNAL missing()
+-> DONE
+=== e_ok
+ok
+-> DONE
+=== function _g()
+~ return missing()
+=== g_one
+g
+-> DONE
+`;
+
+describe('predicateErrorPolicy', () => {
+    it("'exclude' logs the error and leaves the storylet out", t => {
+        const error = t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK);
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStorylets(), ['e_ok']);
+        assert.equal(error.mock.callCount(), 1);
+    });
+
+    it("'include' logs the error and keeps the storylet", t => {
+        t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK);
+        manager.predicateErrorPolicy = 'include';
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStorylets(), ['e_bad', 'e_ok']);
+    });
+
+    it("'report' emits predicateError instead of logging", t => {
+        const error = t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK);
+        manager.predicateErrorPolicy = 'report';
+        manager.setStoryletPredicate('e_ok', () => { throw new Error('js predicate failed'); });
+        const reported: { knotID: string; predicate: string | null }[] = [];
+        manager.on('predicateError', ({ knotID, predicate }) => reported.push({ knotID, predicate }));
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStorylets(), []);
+        assert.deepEqual(reported, [{ knotID: 'e_bad', predicate: '_e_bad' }, { knotID: 'e_ok', predicate: null }]);
+        assert.equal(error.mock.callCount(), 0);
+    });
+
+    it("'rethrow' fails the refresh from tick() and emits refreshFailed", () => {
+        const manager = createManager(INK);
+        manager.predicateErrorPolicy = 'rethrow';
+        const failed: string[] = [];
+        manager.on('refreshFailed', ({ pool, knotID }) => failed.push(`${pool}:${knotID}`));
+
+        manager.refresh();
+        assert.throws(() => manager.tick());
+        assert.deepEqual(failed, ['default:e_bad']);
+        assert.ok(manager.needsRefresh());
+    });
+
+    it("'rethrow' fails refresh() itself for a group predicate", () => {
+        const manager = createManager(GROUP_INK);
+        manager.predicateErrorPolicy = 'rethrow';
+
+        assert.throws(() => manager.refresh('grouped'));
+        assert.ok(manager.needsRefresh('grouped'));
+    });
+
+    it('an Ink runtime error in a predicate leaves the story able to continue', t => {
+        t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK + '=== function _e_ok()\n~ return RANDOM(5, 1)\n');
+        manager.getStory().BindExternalFunction('missing', () => true);
+        refreshNow(manager);
+
+        const story = manager.getStory();
+        assert.ok(!story.state.hasError);
+        story.ChoosePathString('e_ok');
+        assert.equal(story.ContinueMaximally().trim(), 'ok');
+    });
+
+    it('a predicate that threw is evaluated again on the next refresh', t => {
+        t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK);
+        manager.incrementalRefresh = true;
+        refreshNow(manager);
+        manager.getStory().BindExternalFunction('missing', () => true);
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStorylets(), ['e_bad', 'e_ok']);
+    });
+});
+
+describe('refreshing with a failing predicate', () => {
+    it('refreshAsync() rejects and cancels the pools it had already started', async () => {
+        const manager = createManager(GROUP_INK);
+        manager.predicateErrorPolicy = 'rethrow';
+
+        await assert.rejects(manager.refreshAsync(undefined, { drive: false }));
+        assert.ok(manager.needsRefresh('default'));
+        assert.ok(manager.needsRefresh('grouped'));
+    });
+
+    it('refreshAsync() rejects when a driven tick() throws', async () => {
+        const manager = createManager(INK);
+        manager.predicateErrorPolicy = 'rethrow';
+        const scheduler = new ManualScheduler();
+        const hands = manager.refreshAsync('default', { scheduler });
+
+        scheduler.step();
+        await assert.rejects(hands);
+        assert.equal(scheduler.pending, 0);
+    });
+
+    it('runUntilReady() logs a failed tick and stops instead of rejecting unhandled', async t => {
+        const error = t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK);
+        manager.predicateErrorPolicy = 'rethrow';
+        const scheduler = new ManualScheduler();
+        manager.refresh();
+        runUntilReady(manager, { scheduler });
+
+        scheduler.step();
+        await new Promise(resolve => setImmediate(resolve));
+        assert.equal(scheduler.pending, 0);
+        assert.match(String(error.mock.calls[0].arguments[0]), /\[StoryletRunner\]/);
+    });
+});
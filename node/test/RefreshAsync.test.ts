@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ManualScheduler } from '../src/Scheduler';
+import { createManager } from './helpers';
+
+const INK = `
+#storylets:a
+#storylets:b,other
+VAR broken = false
+-> DONE
+=== a_1
+one
+-> DONE
+=== a_2
+two
+-> DONE
+=== function _a_2()
+{ broken:
+    ~ return RANDOM(5, 1)
+}
+~ return true
+=== b_1
+b
+-> DONE
+`;
+
+/** A manager whose pools refresh one storylet per tick, driven by a ManualScheduler. */
+function setup() {
+    const manager = createManager(INK);
+    manager.storyletsPerTick = 1;
+    return { manager, scheduler: new ManualScheduler() };
+}
+
+describe('refreshAsync', () => {
+    it('resolves with the hands of every pool once they are ready', async () => {
+        const { manager, scheduler } = setup();
+        const hands = manager.refreshAsync(undefined, { scheduler });
+
+        assert.equal(manager.isRefreshing('default'), true);
+        scheduler.runUntilIdle();
+        assert.deepEqual(await hands, { default: ['a_1', 'a_2'], other: ['b_1'] });
+        assert.ok(manager.areAllReady());
+    });
+
+    it('resolves with one pool, ticked by your own loop with drive: false', async () => {
+        const { manager } = setup();
+        const hands = manager.refreshAsync('other', { drive: false });
+
+        manager.tick();
+        assert.deepEqual(await hands, { other: ['b_1'] });
+        assert.ok(manager.needsRefresh('default'));
+    });
+
+    for (const policy of ['exclude', 'include', 'report'] as const) {
+        it(`rejects when a predicate throws, with predicateErrorPolicy '${policy}'`, async t => {
+            t.mock.method(console, 'error', () => {});
+            const { manager, scheduler } = setup();
+            manager.predicateErrorPolicy = policy;
+            manager.getStory().variablesState['broken'] = true;
+            const hands = manager.refreshAsync(undefined, { scheduler });
+
+            scheduler.runUntilIdle();
+            await assert.rejects(hands, /RANDOM was called/);
+            assert.ok(manager.needsRefresh('default'));
+            assert.ok(manager.isReady('other'));
+            assert.equal(scheduler.pending, 0);
+        });
+    }
+
+    it("doesn't reject for a predicate error in a pool it isn't waiting on", async t => {
+        const error = t.mock.method(console, 'error', () => {});
+        const { manager, scheduler } = setup();
+        manager.getStory().variablesState['broken'] = true;
+        manager.refresh('default');
+        const hands = manager.refreshAsync('other', { scheduler });
+
+        scheduler.runUntilIdle();
+        assert.deepEqual(await hands, { other: ['b_1'] });
+        manager.tick();
+        assert.deepEqual(manager.getPlayableStorylets(), ['a_1']);
+        assert.equal(error.mock.callCount(), 1);
+    });
+
+    it('rejects, cancelling the pools it started, when a group predicate throws', async t => {
+        t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK + '=== function _b()\n~ return RANDOM(5, 1)\n');
+        const hands = manager.refreshAsync(undefined, { drive: false });
+
+        await assert.rejects(hands);
+        assert.ok(manager.needsRefresh('default'));
+        assert.ok(manager.needsRefresh('other'));
+    });
+
+    it('rejects straight away with a signal that is already aborted', async () => {
+        const { manager } = setup();
+        const controller = new AbortController();
+        controller.abort(new Error('too late'));
+
+        await assert.rejects(manager.refreshAsync(undefined, { signal: controller.signal }), /too late/);
+        assert.ok(manager.needsRefresh('default'));
+    });
+
+    it('rejects when aborted, returning unfinished pools to needing a refresh', async () => {
+        const { manager, scheduler } = setup();
+        const controller = new AbortController();
+        const hands = manager.refreshAsync(undefined, { scheduler, signal: controller.signal });
+
+        scheduler.step();
+        controller.abort(new Error('cancelled'));
+        await assert.rejects(hands, /cancelled/);
+        assert.ok(manager.needsRefresh('default'));
+        assert.ok(manager.isReady('other'));
+        assert.equal(scheduler.pending, 0);
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createManager } from './helpers';
+
+const INK = `
+#storylets:a
+#storylets:b,other
+-> DONE
+=== a_1
+-> DONE
+=== a_2
+-> DONE
+=== a_3
+-> DONE
+=== b_1
+-> DONE
+`;
+
+/** A manager ticking one storylet per pool per tick on a fake clock, recording its refresh events. */
+function setup() {
+    const manager = createManager(INK);
+    manager.storyletsPerTick = 1;
+    const clock = { now: 100 };
+    manager.clock = () => clock.now;
+    const events: string[] = [];
+    manager.on('refreshProgress', ({ pool, progress, overall }) =>
+        events.push(`progress:${pool} ${progress.evaluated}/${progress.total} overall ${overall.evaluated}/${overall.total}`));
+    manager.on('refreshComplete', ({ pool }) => events.push(`complete:${pool}`));
+    manager.on('allReady', () => events.push('allReady'));
+    return { manager, clock, events };
+}
+
+describe('refreshProgress', () => {
+    it('is emitted once per pool processed, before refreshComplete and allReady', () => {
+        const { manager, events } = setup();
+        manager.refresh();
+
+        manager.tick();
+        assert.deepEqual(events, [
+            'progress:other 1/1 overall 2/4',
+            'complete:other',
+            'progress:default 1/3 overall 2/4'
+        ]);
+
+        events.length = 0;
+        manager.tick();
+        manager.tick();
+        assert.deepEqual(events, [
+            'progress:default 2/3 overall 3/4',
+            'progress:default 3/3 overall 4/4',
+            'complete:default',
+            'allReady'
+        ]);
+
+        events.length = 0;
+        manager.tick();
+        assert.deepEqual(events, []);
+    });
+
+    it('counts only the pools being refreshed', () => {
+        const { manager, events } = setup();
+        manager.refresh('default');
+
+        manager.tick();
+        assert.deepEqual(events, ['progress:default 1/3 overall 1/3']);
+    });
+});
+
+describe('getRefreshProgress', () => {
+    it('reports counts, fraction and time for a pool and overall', () => {
+        const { manager, clock } = setup();
+        assert.deepEqual(manager.getRefreshProgress('default'), {
+            state: 'needsRefresh', evaluated: 0, total: 0, fraction: 0, elapsedMs: 0, estimatedRemainingMs: null
+        });
+
+        manager.refresh('default');
+        clock.now += 10;
+        assert.equal(manager.getRefreshProgress('default')!.estimatedRemainingMs, null);
+        manager.tick();
+        assert.deepEqual(manager.getRefreshProgress('default'), {
+            state: 'refreshing', evaluated: 1, total: 3, fraction: 1 / 3, elapsedMs: 10, estimatedRemainingMs: 20
+        });
+
+        manager.refresh('other');
+        clock.now += 10;
+        manager.tick();
+        assert.deepEqual(manager.getRefreshProgress(), {
+            state: 'refreshing', evaluated: 3, total: 4, fraction: 3 / 4, elapsedMs: 20, estimatedRemainingMs: 20 / 3
+        });
+
+        clock.now += 10;
+        manager.tick();
+        clock.now += 50;
+        assert.deepEqual(manager.getRefreshProgress(), {
+            state: 'ready', evaluated: 4, total: 4, fraction: 1, elapsedMs: 30, estimatedRemainingMs: 0
+        });
+        assert.equal(manager.getRefreshProgress('other')!.elapsedMs, 10);
+    });
+
+    it('reports an empty refresh as complete, and an unknown pool as null', t => {
+        t.mock.method(console, 'warn', () => {});
+        const { manager } = setup();
+        manager.removeStorylets('b');
+        manager.refresh('other');
+        manager.tick();
+
+        assert.equal(manager.getRefreshProgress('other')!.fraction, 1);
+        assert.equal(manager.getRefreshProgress('nowhere'), null);
+    });
+});
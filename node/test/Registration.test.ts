@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createManager, refreshNow } from './helpers';
+
+const INK = `
+#storylets:bar
+-> DONE
+=== bar_drink
+drink
+-> DONE
+=== bar_fight
+fight
+-> DONE
+=== inn_sleep
+sleep
+-> DONE
+=== function _inn_sleep()
+~ return true
+=== letter
+letter
+-> DONE
+`;
+
+describe('registering storylets', () => {
+    it('discovers knots by prefix, once however often it is called', () => {
+        const manager = createManager(INK);
+        manager.addStorylets('bar', 'town');
+        manager.addStorylets('bar', 'town');
+        refreshNow(manager, 'town');
+
+        assert.deepEqual(manager.getPlayableStorylets(false, 'town'), ['bar_drink', 'bar_fight']);
+    });
+
+    it('discovers knots by a regular expression or a function, never matching predicates', () => {
+        const manager = createManager(INK);
+        manager.addStoryletsMatching('tavern', /(bar|inn)_/, 'regex');
+        manager.addStoryletsMatching('quiet', knotID => knotID.endsWith('sleep'), 'function');
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStorylets(false, 'regex'), ['bar_drink', 'bar_fight', 'inn_sleep']);
+        assert.deepEqual(manager.getPlayableStorylets(false, 'function'), ['inn_sleep']);
+    });
+
+    it('registers a single knot, if the story has it', t => {
+        t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK);
+
+        assert.ok(manager.addStorylet('letter', 'story'));
+        assert.ok(!manager.addStorylet('postcard', 'story'));
+        refreshNow(manager, 'story');
+        assert.deepEqual(manager.getPlayableStorylets(false, 'story'), ['letter']);
+    });
+});
+
+describe('removeStorylets', () => {
+    it('removes what was registered under a name, from a tag or from code, and returns it', t => {
+        t.mock.method(console, 'warn', () => {});
+        const manager = createManager(INK);
+        manager.addStoryletsMatching('tavern', /^inn_/);
+        manager.addStorylet('letter');
+
+        assert.deepEqual(manager.removeStorylets('tavern'), ['inn_sleep']);
+        assert.deepEqual(manager.removeStorylets('letter'), ['letter']);
+        assert.deepEqual(manager.removeStorylets('bar'), ['bar_drink', 'bar_fight']);
+        assert.deepEqual(manager.removeStorylets('bar'), []);
+        assert.deepEqual(manager.getStoryletPools('bar_drink'), []);
+    });
+
+    it('only removes from the given pool', () => {
+        const manager = createManager(INK);
+        manager.addStorylets('bar', 'town');
+
+        assert.deepEqual(manager.removeStorylets('bar', 'town'), ['bar_drink', 'bar_fight']);
+        assert.deepEqual(manager.getStoryletPools('bar_drink'), ['default']);
+    });
+
+    it('takes them out of the current hand and the refresh in progress', () => {
+        const manager = createManager(INK);
+        manager.addStorylet('letter');
+        refreshNow(manager);
+        manager.removeStorylets('bar');
+        assert.deepEqual(manager.getPlayableStorylets(), ['letter']);
+
+        manager.addStorylets('bar');
+        manager.refresh();
+        manager.removeStorylets('bar');
+        refreshNow(manager);
+        assert.deepEqual(manager.getPlayableStorylets(), ['letter']);
+    });
+
+    it('abandons pending picks of them from the pool', () => {
+        const manager = createManager(INK);
+        manager.addStorylet('letter');
+        const bar = manager.beginStorylet('bar_drink', 'default')!;
+        const letter = manager.beginStorylet('letter', 'default')!;
+
+        manager.removeStorylets('bar');
+        assert.equal(bar.status, 'abandoned');
+        assert.equal(letter.status, 'pending');
+        assert.ok(!bar.commit());
+        assert.equal(manager.getPlayCount('bar_drink'), 0);
+    });
+});
+
+describe('removePool', () => {
+    it('removes the pool, abandoning its refresh and pending picks', async () => {
+        const manager = createManager(INK);
+        const removed: string[] = [];
+        manager.on('poolRemoved', ({ pool }) => removed.push(pool));
+        const pending = manager.beginStorylet('bar_drink', 'default')!;
+        const hands = manager.refreshAsync(undefined, { drive: false });
+
+        assert.ok(manager.removePool('default'));
+        assert.deepEqual(await hands, { default: [] });
+        assert.deepEqual(removed, ['default']);
+        assert.equal(pending.status, 'abandoned');
+        assert.deepEqual(manager.getPoolNames(), []);
+    });
+
+    it('returns false for an unknown pool', t => {
+        t.mock.method(console, 'warn', () => {});
+        assert.ok(!createManager(INK).removePool('nowhere'));
+    });
+});
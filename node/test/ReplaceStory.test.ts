@@ -0,0 +1,160 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ReplaceStoryReport } from '../src/StoryletManager';
+import { compileStory, createManager, refreshNow } from './helpers';
+
+const V1 = `
+#storylets:a,pa
+#storylets:b,pb
+VAR gold = 0
+EXTERNAL ext()
+-> DONE
+=== function call_ext()
+~ return ext()
+=== function _a_1()
+~ return gold >= 0
+=== a_1
+a1
+-> DONE
+=== a_2
+a2
+-> DONE
+=== b_1
+b1
+-> DONE
+=== z_1
+z1
+-> DONE
+`;
+
+// a_2 and the b pool are gone; a_3 is new.
+const V2 = `
+#storylets:a,pa
+VAR gold = 0
+EXTERNAL ext()
+-> DONE
+=== function call_ext()
+~ return ext()
+=== function _a_1()
+~ return gold >= 0
+=== a_1
+a1 again
+-> DONE
+=== a_3
+a3
+-> DONE
+=== z_1
+z1
+-> DONE
+`;
+
+/** V2, with `ext` bound as a game would before swapping it in. */
+function compileV2() {
+    const story = compileStory(V2);
+    story.BindExternalFunction('ext', () => 'new');
+    return story;
+}
+
+/** A V1 manager with `ext` bound and z_1 registered in code. */
+function setup() {
+    const manager = createManager(V1);
+    manager.getStory().BindExternalFunction('ext', () => 'old');
+    manager.addStorylet('z_1', 'single');
+    refreshNow(manager);
+    return manager;
+}
+
+describe('replaceStory', () => {
+    it('rediscovers storylets, keeping the history of those that still exist', () => {
+        const manager = setup();
+        manager.markPlayed('a_1', 'pa');
+        manager.markPlayed('a_2', 'pa');
+        manager.markPlayed('z_1', 'single');
+
+        const report = manager.replaceStory(compileStory(V2), { refresh: false });
+
+        assert.deepEqual(report.added, { pa: ['a_3'] });
+        assert.deepEqual(report.removed, { pa: ['a_2'], pb: ['b_1'] });
+        assert.deepEqual(report.removedPools, ['pb']);
+        assert.deepEqual(manager.getPoolNames(), ['pa', 'single']);
+        assert.equal(manager.getPlayCount('a_1'), 1);
+        assert.equal(manager.getPlayCount('z_1'), 1);
+        assert.equal(manager.getCurrentTurn(), 3);
+    });
+
+    it('carries the Ink state over unless keepInkState is false', () => {
+        const kept = setup();
+        kept.getStory().variablesState['gold'] = 7;
+        const report = kept.replaceStory(compileStory(V2), { refresh: false });
+        assert.ok(report.inkStateKept);
+        assert.equal(kept.getStory().variablesState['gold'], 7);
+
+        const fresh = setup();
+        fresh.getStory().variablesState['gold'] = 7;
+        assert.ok(!fresh.replaceStory(compileStory(V2), { keepInkState: false, refresh: false }).inkStateKept);
+        assert.equal(fresh.getStory().variablesState['gold'], 0);
+    });
+
+    it("doesn't carry external functions over unless keepExternals is set", () => {
+        const manager = setup();
+        const story = compileStory(V2);
+        manager.replaceStory(story, { refresh: false });
+        assert.throws(() => story.EvaluateFunction('call_ext'));
+
+        const keeping = setup();
+        const keptStory = compileStory(V2);
+        keeping.replaceStory(keptStory, { keepExternals: true, refresh: false });
+        assert.equal(keptStory.EvaluateFunction('call_ext'), 'old');
+    });
+
+    it('keeps bindings made on the new story over the old ones', () => {
+        const manager = setup();
+        const story = compileV2();
+        manager.replaceStory(story, { keepExternals: true, refresh: false });
+
+        assert.equal(story.EvaluateFunction('call_ext'), 'new');
+    });
+
+    it("doesn't bring back tag registrations removed with removeStorylets() or removePool()", () => {
+        const manager = setup();
+        manager.removeStorylets('a', 'pa');
+        manager.removePool('pb');
+
+        const report = manager.replaceStory(compileV2(), { refresh: false });
+
+        assert.deepEqual(report.added, {});
+        assert.deepEqual(manager.getPoolNames(), ['pa', 'single']);
+        assert.deepEqual(manager.getStoryletPools('a_1'), []);
+    });
+
+    it('abandons pending picks, emits storyReplaced and refreshes every pool', () => {
+        const manager = setup();
+        const pending = manager.pickPendingStorylet('pa')!;
+        const reports: ReplaceStoryReport[] = [];
+        manager.on('storyReplaced', ({ report }) => reports.push(report));
+
+        const report = manager.replaceStory(compileV2());
+
+        assert.equal(pending.status, 'abandoned');
+        assert.deepEqual(reports, [report]);
+        assert.ok(manager.isRefreshing('pa') && manager.isRefreshing('single'));
+        refreshNow(manager);
+        assert.deepEqual(manager.getPlayableStorylets(false, 'pa'), ['a_1', 'a_3']);
+    });
+
+    it('observes variables on the new story instead of the old one', () => {
+        const manager = setup();
+        manager.autoMarkNeedsRefresh = true;
+        const oldStory = manager.getStory();
+        const story = compileV2();
+        manager.replaceStory(story);
+        refreshNow(manager);
+
+        const invalidated: string[] = [];
+        manager.on('poolInvalidated', ({ pool, variable }) => invalidated.push(`${pool}:${variable}`));
+        oldStory.variablesState['gold'] = 3;
+        assert.deepEqual(invalidated, []);
+        story.variablesState['gold'] = 3;
+        assert.deepEqual(invalidated, ['pa:gold']);
+    });
+});
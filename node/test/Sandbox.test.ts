@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PredicateMutation, PredicateSandboxMode } from '../src/StoryletManager';
+import { createManager, refreshNow } from './helpers';
+
+const INK = `
+#storylets:s
+VAR gold = 10
+EXTERNAL give(n)
+-> DONE
+=== s_greedy
+greedy
+-> DONE
+=== function _s_greedy()
+~ gold = gold + 5
+~ return true
+=== s_chatty
+chatty
+-> DONE
+=== function _s_chatty()
+hello there
+~ return give(3) > 0
+=== s_clean
+clean
+-> DONE
+=== function _s_clean()
+~ return gold > 0
+`;
+
+/** A manager with `give` bound, recording every predicateMutation and every real give() call. */
+function setup(mode: PredicateSandboxMode) {
+    const manager = createManager(INK);
+    manager.predicateSandbox = mode;
+    const given: number[] = [];
+    manager.getStory().BindExternalFunction('give', (n: number) => {
+        given.push(n);
+        return n;
+    });
+    const mutations: Record<string, PredicateMutation[]> = {};
+    const restored: boolean[] = [];
+    manager.on('predicateMutation', event => {
+        mutations[event.knotID] = event.mutations;
+        restored.push(event.restored);
+    });
+    return { manager, given, mutations, restored };
+}
+
+describe('predicateSandbox', () => {
+    it("'off' lets predicates change state unreported", () => {
+        const { manager, given, mutations } = setup('off');
+        refreshNow(manager);
+
+        assert.equal(manager.getStory().variablesState['gold'], 15);
+        assert.deepEqual(given, [3]);
+        assert.deepEqual(mutations, {});
+    });
+
+    it("'verify' reports each change and keeps it", t => {
+        t.mock.method(console, 'warn', () => {});
+        const { manager, mutations, restored } = setup('verify');
+        refreshNow(manager);
+
+        assert.equal(manager.getStory().variablesState['gold'], 15);
+        assert.deepEqual(mutations['s_greedy'], [{ kind: 'variable', variable: 'gold', before: 10, after: 15 }]);
+        assert.deepEqual(mutations['s_chatty'], [{ kind: 'output', text: 'hello there' }]);
+        assert.equal(mutations['s_clean'], undefined);
+        assert.ok(restored.every(r => !r));
+    });
+
+    it("'restore' undoes assignments without notifying variable observers", t => {
+        t.mock.method(console, 'warn', () => {});
+        const { manager, mutations, restored } = setup('restore');
+        const observed: unknown[] = [];
+        manager.getStory().ObserveVariable('gold', (_name: string, value: unknown) => observed.push(value));
+        refreshNow(manager);
+
+        assert.equal(manager.getStory().variablesState['gold'], 10);
+        assert.deepEqual(observed, []);
+        assert.equal(mutations['s_greedy'].length, 1);
+        assert.ok(restored.every(r => r));
+        assert.deepEqual(manager.getPlayableStorylets(), ['s_greedy', 's_chatty', 's_clean']);
+    });
+
+    it("runs a flagged external function's stub in place of the real one", t => {
+        t.mock.method(console, 'warn', () => {});
+        const { manager, given, mutations } = setup('restore');
+        manager.flagMutatingExternal('give', () => 0);
+        refreshNow(manager);
+
+        assert.deepEqual(given, []);
+        assert.deepEqual(mutations['s_chatty'], [{ kind: 'output', text: 'hello there' }]);
+        assert.ok(!manager.getPlayableStorylets()!.includes('s_chatty'));
+    });
+
+    it('reports calls to a flagged external function without a stub', t => {
+        t.mock.method(console, 'warn', () => {});
+        const { manager, given, mutations } = setup('verify');
+        manager.flagMutatingExternal('give');
+        refreshNow(manager);
+
+        assert.deepEqual(given, [3]);
+        assert.deepEqual(mutations['s_chatty'].filter(m => m.kind === 'external'), [{ kind: 'external', name: 'give', args: [3] }]);
+
+        manager.unflagMutatingExternal('give');
+        refreshNow(manager);
+        assert.deepEqual(mutations['s_chatty'].filter(m => m.kind === 'external'), []);
+    });
+
+    it('puts the real external binding back after each predicate', t => {
+        t.mock.method(console, 'warn', () => {});
+        const { manager, given } = setup('restore');
+        manager.flagMutatingExternal('give', () => 0);
+        refreshNow(manager);
+
+        manager.getStory().EvaluateFunction('_s_chatty');
+        assert.deepEqual(given, [3]);
+    });
+
+    it('checks JS predicates too', t => {
+        t.mock.method(console, 'warn', () => {});
+        const { manager, mutations } = setup('restore');
+        manager.setStoryletPredicate('s_clean', () => {
+            manager.getStory().variablesState['gold'] = 0;
+            return true;
+        });
+        refreshNow(manager);
+
+        assert.deepEqual(mutations['s_clean'], [{ kind: 'variable', variable: 'gold', before: 10, after: 0 }]);
+        assert.equal(manager.getStory().variablesState['gold'], 10);
+    });
+});
@@ -0,0 +1,185 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SAVE_VERSION } from '../src/StoryletManager';
+import { createManager, refreshNow } from './helpers';
+
+const INK = `
+#storylets:s
+VAR gold = 0
+-> DONE
+=== s_a
+A
+-> DONE
+=== s_b
+#once
+B
+-> DONE
+=== s_c
+#cooldown: 2
+C
+-> DONE
+`;
+
+describe('saveAsJson / loadFromJson', () => {
+    it('round-trips play history, cooldowns, the turn counter and hands', () => {
+        const manager = createManager(INK);
+        refreshNow(manager);
+        manager.markPlayed('s_a');
+        manager.markPlayed('s_c');
+        const saved = manager.saveAsJson();
+
+        const loaded = createManager(INK);
+        const report = loaded.loadFromJson(saved);
+
+        assert.equal(report.version, SAVE_VERSION);
+        assert.equal(loaded.getPlayCount('s_a'), 1);
+        assert.equal(loaded.getLastPlayedTurn('s_c'), 2);
+        assert.equal(loaded.getCooldownRemaining('s_c'), 2);
+        assert.equal(loaded.getCurrentTurn(), 2);
+        assert.deepEqual(report.restoredHands, ['default']);
+        assert.ok(loaded.isReady());
+        assert.deepEqual(loaded.getPlayableStorylets(), manager.getPlayableStorylets());
+    });
+
+    it('upgrades an unversioned bare save', () => {
+        const manager = createManager(INK);
+        const report = manager.loadFromJson(JSON.stringify({ default: [['s_b', true], ['s_c', false]] }));
+
+        assert.equal(report.version, 0);
+        assert.equal(manager.getPlayCount('s_b'), 1);
+        assert.equal(manager.getPlayCount('s_c'), 0);
+        assert.equal(manager.getCurrentTurn(), 0);
+        assert.deepEqual(report.unsaved, [{ knotID: 's_a', pool: 'default' }]);
+        assert.ok(manager.needsRefresh());
+    });
+
+    it('rejects malformed saves without touching the current state', () => {
+        const manager = createManager(INK);
+        manager.markPlayed('s_a');
+        const malformed = [
+            [],
+            { default: [{ id: 's_a' }] },
+            { version: '1', turn: 0, pools: {} },
+            { version: SAVE_VERSION, pools: {} },
+            { version: SAVE_VERSION, turn: 0, pools: [] },
+            { version: SAVE_VERSION, turn: 0, pools: { default: [['s_a', true]] } },
+            { version: SAVE_VERSION, turn: 0, pools: { default: { storylets: [{ id: 's_a', count: '1', last: null, cooldown: 0 }], hand: null } } },
+            { version: SAVE_VERSION, turn: 0, pools: { default: { storylets: [], hand: 's_a' } } }
+        ];
+
+        for (const data of malformed) {
+            assert.throws(() => manager.loadFromJson(JSON.stringify(data)), /Invalid save data/, JSON.stringify(data));
+        }
+        assert.equal(manager.getPlayCount('s_a'), 1);
+    });
+
+    it('rejects saves from a newer version', () => {
+        const manager = createManager(INK);
+        assert.throws(() => manager.loadFromJson(JSON.stringify({ version: SAVE_VERSION + 1, turn: 0, pools: {} })));
+    });
+
+    it('reports renamed, removed, orphaned and unknown entries', () => {
+        const manager = createManager(INK);
+        const saved = JSON.stringify({
+            version: SAVE_VERSION,
+            turn: 4,
+            pools: {
+                default: {
+                    storylets: [
+                        { id: 's_old', count: 2, last: 4, cooldown: 0 },
+                        { id: 's_cut', count: 1, last: 1, cooldown: 0 },
+                        { id: 's_gone', count: 1, last: 2, cooldown: 0 }
+                    ],
+                    hand: null
+                },
+                legacy: { storylets: [], hand: null }
+            }
+        });
+
+        const report = manager.loadFromJson(saved, {
+            migrate: knotID => knotID === 's_old' ? 's_a' : knotID === 's_cut' ? null : undefined
+        });
+
+        assert.deepEqual(report.renamed, [{ from: 's_old', to: 's_a', pool: 'default' }]);
+        assert.deepEqual(report.removed, [{ knotID: 's_cut', pool: 'default' }]);
+        assert.deepEqual(report.orphaned, [{ knotID: 's_gone', pool: 'default' }]);
+        assert.deepEqual(report.unknownPools, ['legacy']);
+        assert.equal(manager.getPlayCount('s_a'), 2);
+    });
+
+    it('emits stateLoaded with the report', () => {
+        const manager = createManager(INK);
+        const reports: unknown[] = [];
+        manager.on('stateLoaded', ({ report }) => reports.push(report));
+
+        const report = manager.loadFromJson(manager.saveAsJson());
+
+        assert.deepEqual(reports, [report]);
+    });
+});
+
+describe('saveSnapshot / loadSnapshot', () => {
+    it('restores the Ink state with the storylet state', () => {
+        const manager = createManager(INK);
+        refreshNow(manager);
+        manager.getStory().variablesState['gold'] = 5;
+        manager.markPlayed('s_b');
+        const snapshot = manager.saveSnapshot();
+
+        manager.getStory().variablesState['gold'] = 0;
+        manager.reset();
+        manager.loadSnapshot(snapshot, { refresh: false });
+
+        assert.equal(manager.getStory().variablesState['gold'], 5);
+        assert.equal(manager.getPlayCount('s_b'), 1);
+        assert.ok(manager.isReady());
+    });
+
+    it('refuses a snapshot of different Ink content', () => {
+        const snapshot = createManager(INK).saveSnapshot();
+        const other = createManager(INK.replace('C\n', 'C changed\n'));
+
+        assert.throws(() => other.loadSnapshot(snapshot), /different Ink content/);
+        assert.doesNotThrow(() => other.loadSnapshot(snapshot, { allowContentMismatch: true, refresh: false }));
+    });
+
+    it('puts everything back without events or abandoning picks when the load fails', () => {
+        const manager = createManager(INK);
+        refreshNow(manager);
+        const snapshot = manager.saveSnapshot();
+        manager.markPlayed('s_a');
+        manager.getStory().variablesState['gold'] = 9;
+        const pending = manager.pickPendingStorylet()!;
+        const before = manager.saveAsJson();
+
+        const events: string[] = [];
+        for (const event of ['poolReset', 'stateLoaded', 'storyletAbandoned'] as const) {
+            manager.on(event, () => events.push(event));
+        }
+        assert.throws(() => manager.loadSnapshot(snapshot, {
+            migrate: () => { throw new Error('migration failed'); }
+        }), /migration failed/);
+
+        assert.deepEqual(events, []);
+        assert.equal(manager.saveAsJson(), before);
+        assert.equal(manager.getStory().variablesState['gold'], 9);
+        assert.equal(pending.status, 'pending');
+        assert.ok(manager.isReady());
+    });
+
+    it('abandons pending picks and emits events once the load succeeds', () => {
+        const manager = createManager(INK);
+        refreshNow(manager);
+        const snapshot = manager.saveSnapshot();
+        const pending = manager.pickPendingStorylet()!;
+
+        const events: string[] = [];
+        for (const event of ['poolReset', 'stateLoaded', 'storyletAbandoned'] as const) {
+            manager.on(event, () => events.push(event));
+        }
+        manager.loadSnapshot(snapshot, { refresh: false });
+
+        assert.equal(pending.status, 'abandoned');
+        assert.deepEqual(events, ['storyletAbandoned', 'poolReset', 'stateLoaded']);
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    HighestWeightStrategy, LeastRecentlyPlayedStrategy, PriorityTierStrategy, ShuffleBagStrategy, WeightedRandomStrategy
+} from '../src/StoryletManager';
+import { createManager, refreshNow } from './helpers';
+
+const INK = `
+#storylets:s
+-> DONE
+=== function _s_low()
+~ return 1
+=== s_low
+#priority: 1
+low
+-> DONE
+=== function _s_high()
+~ return 5
+=== s_high
+high
+-> DONE
+=== function _s_off()
+~ return 0
+=== s_off
+#priority: 9
+off
+-> DONE
+=== s_mid
+#priority: 1
+mid
+-> DONE
+`;
+
+/** Pick `count` times, committing each pick, and return the knotIDs in order. */
+function pickMany(manager: ReturnType<typeof createManager>, count: number): string[] {
+    return Array.from({ length: count }, () => manager.pickPlayableStorylet()!);
+}
+
+describe('selection strategies', () => {
+    it('weighted random never picks a storylet with weight 0, and repeats for a seed', () => {
+        const picks = (seed: number) => {
+            const manager = createManager(INK, seed);
+            refreshNow(manager);
+            return pickMany(manager, 30);
+        };
+        const first = picks(7);
+
+        assert.ok(!first.includes('s_off'));
+        assert.deepEqual(new Set(first), new Set(['s_low', 's_high', 's_mid']));
+        assert.deepEqual(picks(7), first);
+    });
+
+    it('highest weight picks the heaviest storylet', () => {
+        const manager = createManager(INK);
+        manager.setSelectionStrategy(new HighestWeightStrategy());
+        refreshNow(manager);
+
+        assert.deepEqual(pickMany(manager, 3), ['s_high', 's_high', 's_high']);
+    });
+
+    it('priority tiers only consider the highest playable tier', () => {
+        const manager = createManager(INK);
+        manager.setSelectionStrategy(new PriorityTierStrategy());
+        refreshNow(manager);
+
+        // s_off is tier 9 but unplayable, so tier 1 is the highest with anything in it.
+        const picks = pickMany(manager, 20);
+        assert.deepEqual(new Set(picks), new Set(['s_low', 's_mid']));
+    });
+
+    it('least recently played goes round-robin, never-played first', () => {
+        const manager = createManager(INK);
+        manager.setSelectionStrategy(new LeastRecentlyPlayedStrategy());
+        refreshNow(manager);
+        manager.markPlayed('s_low');
+
+        assert.deepEqual(pickMany(manager, 4), ['s_high', 's_mid', 's_low', 's_high']);
+    });
+
+    it('a strategy passed to a pick overrides the pool strategy for that pick only', () => {
+        const manager = createManager(INK);
+        manager.setSelectionStrategy(new HighestWeightStrategy());
+        refreshNow(manager);
+
+        assert.equal(manager.pickPlayableStorylet('default', new PriorityTierStrategy(new LeastRecentlyPlayedStrategy())), 's_low');
+        assert.equal(manager.pickPlayableStorylet(), 's_high');
+    });
+
+    it('weighted random returns null when nothing has weight', () => {
+        const manager = createManager(INK);
+        const strategy = new WeightedRandomStrategy();
+        const candidates = [{ knotID: 's_off', weight: 0 }];
+
+        assert.equal(strategy.select({ pool: 'default', candidates, random: manager.random, manager }), null);
+    });
+});
+
+describe('ShuffleBagStrategy', () => {
+    it('deals every playable storylet once before repeating', () => {
+        const manager = createManager(INK);
+        manager.setSelectionStrategy(new ShuffleBagStrategy());
+        refreshNow(manager);
+
+        const picks = pickMany(manager, 6);
+        assert.equal(new Set(picks.slice(0, 3)).size, 3);
+        assert.equal(new Set(picks.slice(3)).size, 3);
+        assert.ok(!picks.includes('s_off'));
+    });
+
+    it('puts an abandoned pending pick back in the bag', () => {
+        const bag = new ShuffleBagStrategy();
+        const manager = createManager(INK);
+        manager.setSelectionStrategy(bag);
+        refreshNow(manager);
+
+        const pending = manager.pickPendingStorylet()!;
+        assert.deepEqual(bag.getState(), [pending.knotID]);
+        pending.abandon();
+        assert.deepEqual(bag.getState(), []);
+
+        manager.pickPendingStorylet()!.commit();
+        assert.equal(bag.getState().length, 1);
+    });
+
+    it('takes back picks made by a per-call strategy', () => {
+        const bag = new ShuffleBagStrategy();
+        const manager = createManager(INK);
+        refreshNow(manager);
+
+        manager.pickPendingStorylet('default', bag)!.abandon();
+        assert.deepEqual(bag.getState(), []);
+    });
+
+    it('saves its bag and clears it when the pool is reset', () => {
+        const manager = createManager(INK);
+        manager.setSelectionStrategy(new ShuffleBagStrategy());
+        refreshNow(manager);
+        const dealt = pickMany(manager, 2);
+        const saved = manager.saveAsJson();
+
+        const restoredBag = new ShuffleBagStrategy();
+        const loaded = createManager(INK);
+        loaded.setSelectionStrategy(restoredBag);
+        loaded.loadFromJson(saved);
+        assert.deepEqual(new Set(restoredBag.getState()), new Set(dealt));
+
+        loaded.reset();
+        assert.deepEqual(restoredBag.getState(), []);
+    });
+
+    it('keeps the loaded bag when a snapshot load abandons older picks', () => {
+        const bag = new ShuffleBagStrategy();
+        const manager = createManager(INK);
+        manager.setSelectionStrategy(bag);
+        refreshNow(manager);
+        const dealt = manager.pickPlayableStorylet()!;
+        const snapshot = manager.saveSnapshot();
+
+        manager.reset();
+        refreshNow(manager);
+        // Deal the whole bag again, so one of these picks is `dealt`; the load abandons them all.
+        for (let i = 0; i < 3; i++) manager.pickPendingStorylet();
+        manager.loadSnapshot(snapshot, { refresh: false });
+
+        assert.deepEqual(bag.getState(), [dealt]);
+    });
+});
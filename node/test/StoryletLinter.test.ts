@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { LintIssue, LintOptions, formatLintIssue, lintStorylets } from '../src/StoryletLinter';
+import { compileStory } from './helpers';
+
+/** Lint Ink source, summarising each issue as "severity code subject". */
+function lint(source: string, options?: LintOptions): string[] {
+    return lintStorylets(compileStory(source), options).map(summary);
+}
+
+function summary(issue: LintIssue): string {
+    return `${issue.severity} ${issue.code} ${issue.knotID ?? issue.pool}`;
+}
+
+const CLEAN = `
+#storylets:s
+-> DONE
+=== function _s_a()
+~ return true
+=== s_a
+#once
+#cooldown: 2
+a
+-> DONE
+`;
+
+describe('lintStorylets', () => {
+    it('reports nothing for well-formed content', () => {
+        assert.deepEqual(lint(CLEAN), []);
+    });
+
+    it('warns about empty-pool for a registration that matches no knots', () => {
+        assert.deepEqual(lint(CLEAN.replace('#storylets:s', '#storylets:s\n#storylets:nothing,empty')), ['warning empty-pool empty']);
+        assert.deepEqual(lint(CLEAN, { storylets: [{ name: 'x', pool: 'm', match: /^zzz/ }] }), ['warning empty-pool m']);
+    });
+
+    it('warns about orphan-predicate for a predicate with no storylet', () => {
+        assert.deepEqual(lint(CLEAN + '=== function _s_gone()\n~ return true\n'), ['warning orphan-predicate _s_gone']);
+    });
+
+    it('errors on predicate-not-function for storylet and group predicates written as knots', () => {
+        assert.deepEqual(lint(CLEAN.replace('=== function _s_a()\n~ return true', '=== _s_a\n-> DONE')), ['error predicate-not-function s_a']);
+        assert.deepEqual(lint(CLEAN + '=== _s\n-> DONE\n'), ['error predicate-not-function _s']);
+    });
+
+    it('warns about storylet-is-function for a function with a storylet prefix', () => {
+        assert.deepEqual(lint(CLEAN + '=== function s_helper()\n~ return 1\n'), ['warning storylet-is-function s_helper']);
+    });
+
+    it('errors on duplicate-storylet for a knot in more than one pool', () => {
+        assert.deepEqual(lint(CLEAN + '=== s_b\nb\n-> DONE\n', { storylets: [{ name: 's', pool: 'other' }] }), [
+            'error duplicate-storylet s_a', 'error duplicate-storylet s_b'
+        ]);
+    });
+
+    it("doesn't report duplicate-storylet for overlapping registrations into the same pool", () => {
+        const nested = `
+#storylets:world
+#storylets:world_town
+-> DONE
+=== world_town_square
+square
+-> DONE
+`;
+        assert.deepEqual(lint(nested), []);
+        assert.deepEqual(lint(CLEAN, { storylets: [{ name: 's' }] }), []);
+    });
+
+    it('warns about likely misspelled tags, and any unknown tag with a schema', () => {
+        assert.deepEqual(lint(CLEAN.replace('#once', '#onse')), ['warning unknown-tag s_a']);
+        assert.deepEqual(lint(CLEAN.replace('#once', '#mood: calm')), []);
+        assert.deepEqual(lint(CLEAN.replace('#once', '#mood: calm'), { tags: { priority: 'integer' } }), ['warning unknown-tag s_a']);
+    });
+
+    it('reports invalid-tag values, as errors where they would be misread', () => {
+        assert.deepEqual(lint(CLEAN.replace('#once', '#once: soon')), ['warning invalid-tag s_a']);
+        assert.deepEqual(lint(CLEAN.replace('#cooldown: 2', '#cooldown')), ['warning invalid-tag s_a']);
+        assert.deepEqual(lint(CLEAN.replace('#cooldown: 2', '#cooldown: soon')), ['error invalid-tag s_a']);
+        assert.deepEqual(lint(CLEAN.replace('#cooldown: 2', '#weight: -1')), ['error invalid-tag s_a']);
+        assert.deepEqual(lint(CLEAN.replace('#once', '#priority: high'), { tags: { priority: 'integer' } }), ['error invalid-tag s_a']);
+        assert.deepEqual(lint(CLEAN.replace('#once', '#mood: bored'), { tags: { mood: ['calm', 'tense'] } }), ['error invalid-tag s_a']);
+    });
+
+    it('accepts compiled JSON, with or without a BOM', () => {
+        const json = new Compiler(CLEAN + '=== function _s_gone()\n~ return true\n').Compile().ToJson()!;
+        assert.deepEqual(lintStorylets('\uFEFF' + json).map(summary), ['warning orphan-predicate _s_gone']);
+        assert.deepEqual(lintStorylets(JSON.parse(json)).map(summary), ['warning orphan-predicate _s_gone']);
+    });
+
+    it('formats an issue on one line', () => {
+        const [issue] = lintStorylets(compileStory(CLEAN.replace('#once', '#onse')));
+        assert.equal(formatLintIssue(issue), 'warning [unknown-tag] s_a: Unknown tag "#onse" — did you mean "#once"?');
+    });
+});
+
+describe('ink-storylet-lint', () => {
+    /** Run the CLI on `source` compiled to a temporary file. */
+    function run(source: string, ...args: string[]) {
+        const dir = mkdtempSync(join(tmpdir(), 'storylet-lint-'));
+        try {
+            const path = join(dir, 'story.json');
+            writeFileSync(path, new Compiler(source).Compile().ToJson()!);
+            const result = spawnSync(process.execPath, ['--import', 'tsx', join(__dirname, '../src/StoryletLintCli.ts'), path, ...args],
+                { encoding: 'utf8' });
+            return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    }
+
+    it('exits 0 with warnings only, and 1 with --strict', () => {
+        const source = CLEAN.replace('#once', '#onse');
+        assert.equal(run(source).status, 0);
+        assert.equal(run(source, '--strict').status, 1);
+    });
+
+    it('exits 1 on errors, including those from --storylets registrations', () => {
+        const result = run(CLEAN, '--storylets', 's,other');
+        assert.equal(result.status, 1);
+        assert.match(result.stdout, /\[duplicate-storylet\] s_a/);
+        assert.equal(run(CLEAN, '--storylets', 's').status, 0);
+    });
+
+    it('exits 2 on bad arguments or an unreadable story', () => {
+        assert.equal(run(CLEAN, '--nope').status, 2);
+        const missing = spawnSync(process.execPath, ['--import', 'tsx', join(__dirname, '../src/StoryletLintCli.ts'), 'missing.json'],
+            { encoding: 'utf8' });
+        assert.equal(missing.status, 2);
+        assert.match(missing.stderr, /^ink-storylet-lint: ENOENT/);
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ManualScheduler } from '../src/Scheduler';
+import { StoryletPlayer } from '../src/StoryletManager';
+import { compileStory, createManager, refreshNow } from './helpers';
+
+const INK = `
+#storylets:p
+-> DONE
+=== p_once
+#once
+Once upon a time.
+-> DONE
+=== function _p_fails()
+~ return RANDOM(5, 1)
+=== p_fails
+never
+-> DONE
+`;
+
+describe('StoryletPlayer', () => {
+    it('plays a storylet to the end, marks it played and refreshes', t => {
+        t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK);
+        refreshNow(manager);
+        const player = new StoryletPlayer(manager, { drive: false });
+        const completed: string[] = [];
+        player.on('completed', ({ knotID }) => completed.push(knotID));
+
+        assert.equal(player.playNext(), 'p_once');
+        assert.deepEqual(player.continueMaximally().map(line => line.text.trim()), ['Once upon a time.']);
+
+        assert.deepEqual(completed, ['p_once']);
+        assert.equal(manager.getPlayCount('p_once'), 1);
+        assert.ok(manager.isRefreshing());
+        player.dispose();
+    });
+
+    it('stops when the manager abandons its pending pick', () => {
+        const manager = createManager(INK);
+        const player = new StoryletPlayer(manager);
+        const abandoned: string[] = [];
+        player.on('abandoned', ({ knotID }) => abandoned.push(knotID));
+
+        player.start('p_once');
+        manager.replaceStory(compileStory(INK), { refresh: false });
+
+        assert.deepEqual(abandoned, ['p_once']);
+        assert.ok(!player.isPlaying());
+        assert.equal(manager.getPlayCount('p_once'), 0);
+        player.dispose();
+    });
+
+    it("doesn't report its own abandon() twice, nor listen after dispose()", () => {
+        const manager = createManager(INK);
+        const player = new StoryletPlayer(manager);
+        const abandoned: string[] = [];
+        player.on('abandoned', ({ knotID }) => abandoned.push(knotID));
+
+        player.start('p_once');
+        player.abandon();
+        assert.deepEqual(abandoned, ['p_once']);
+
+        player.start('p_once');
+        player.dispose();
+        manager.reset();
+        assert.deepEqual(abandoned, ['p_once']);
+        assert.ok(player.isPlaying());
+    });
+
+    it("lets a 'line' listener abandon the storylet on its last line", () => {
+        const manager = createManager(INK);
+        const player = new StoryletPlayer(manager);
+        const events: string[] = [];
+        player.on('line', () => player.abandon());
+        player.on('abandoned', ({ knotID }) => events.push(`abandoned:${knotID}`));
+        player.on('completed', ({ knotID }) => events.push(`completed:${knotID}`));
+
+        player.start('p_once');
+        assert.equal(player.continue()!.text.trim(), 'Once upon a time.');
+
+        assert.deepEqual(events, ['abandoned:p_once']);
+        assert.ok(!player.isPlaying());
+        assert.equal(manager.getPlayCount('p_once'), 0);
+        player.dispose();
+    });
+
+    it("lets a 'completed' listener start the next storylet", () => {
+        const manager = createManager(INK + '=== p_next\nNext.\n-> DONE\n');
+        const player = new StoryletPlayer(manager, { refresh: 'none' });
+        const completed: string[] = [];
+        player.on('completed', ({ knotID }) => {
+            completed.push(knotID);
+            if (knotID === 'p_once') player.start('p_next');
+        });
+
+        player.start('p_once');
+        player.continue();
+        assert.equal(player.getKnotID(), 'p_next');
+        player.continue();
+
+        assert.deepEqual(completed, ['p_once', 'p_next']);
+        assert.equal(manager.getPlayCount('p_once'), 1);
+        assert.equal(manager.getPlayCount('p_next'), 1);
+        player.dispose();
+    });
+
+    it('emits error when the refresh it drives fails', t => {
+        t.mock.method(console, 'error', () => {});
+        const manager = createManager(INK);
+        manager.predicateErrorPolicy = 'rethrow';
+        const scheduler = new ManualScheduler();
+        const player = new StoryletPlayer(manager, { scheduler });
+        const errors: unknown[] = [];
+        player.on('error', ({ error }) => errors.push(error));
+
+        player.start('p_once');
+        player.continueMaximally();
+        scheduler.step();
+
+        assert.equal(errors.length, 1);
+        assert.equal(scheduler.pending, 0);
+        player.dispose();
+    });
+});
@@ -0,0 +1,190 @@
+import { TestContext, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AnimationFrameScheduler, ImmediateScheduler, ManualScheduler, MessageChannelScheduler, Scheduler, TimeoutScheduler,
+    getDefaultScheduler, setDefaultScheduler, startRunner
+} from '../src/StoryletRunner';
+import { createManager } from './helpers';
+
+const INK = `
+#storylets:a
+#storylets:b,other
+-> DONE
+=== a_1
+one
+-> DONE
+=== a_2
+two
+-> DONE
+=== a_3
+three
+-> DONE
+=== b_1
+b
+-> DONE
+`;
+
+/** A refreshing manager that evaluates one storylet per pool per tick, counting its ticks. */
+function setup(t: TestContext) {
+    const manager = createManager(INK);
+    manager.storyletsPerTick = 1;
+    const tick = t.mock.method(manager, 'tick');
+    manager.refresh();
+    return { manager, tick, ticks: () => tick.mock.callCount(), scheduler: new ManualScheduler() };
+}
+
+describe('ManualScheduler', () => {
+    it('runs only what was scheduled before each step', () => {
+        const scheduler = new ManualScheduler();
+        const ran: string[] = [];
+        scheduler.schedule(() => {
+            ran.push('first');
+            scheduler.schedule(() => ran.push('later'));
+        });
+        const cancel = scheduler.schedule(() => ran.push('cancelled'));
+        cancel();
+
+        assert.equal(scheduler.step(), 1);
+        assert.deepEqual(ran, ['first']);
+        assert.equal(scheduler.pending, 1);
+        assert.equal(scheduler.runUntilIdle(), 1);
+        assert.deepEqual(ran, ['first', 'later']);
+        assert.equal(scheduler.step(), 0);
+    });
+});
+
+describe('startRunner', () => {
+    it('ticks until every pool is ready, reporting progress', async t => {
+        const { manager, ticks, scheduler } = setup(t);
+        const run = startRunner(manager, { scheduler });
+
+        scheduler.step();
+        const { state, ticks: runTicks, readyPools, totalPools } = run.progress();
+        assert.deepEqual({ state, runTicks, readyPools, totalPools }, { state: 'running', runTicks: 1, readyPools: 1, totalPools: 2 });
+        scheduler.runUntilIdle();
+
+        assert.equal(await run.done, true);
+        assert.equal(run.progress().state, 'completed');
+        assert.equal(ticks(), 3);
+        assert.ok(manager.areAllReady());
+    });
+
+    it('finishes on `pools` or `until` instead, if given', async t => {
+        const { manager, scheduler } = setup(t);
+        const other = startRunner(manager, { scheduler, pools: ['other'] });
+        let steps = 0;
+        const until = startRunner(manager, { scheduler, until: () => ++steps === 2 });
+
+        scheduler.step();
+        assert.equal(other.progress().state, 'completed');
+        assert.equal(until.progress().state, 'running');
+        scheduler.step();
+        assert.equal(await until.done, true);
+        assert.ok(manager.isRefreshing('default'));
+        assert.equal(scheduler.pending, 0);
+    });
+
+    it('shares one tick loop between runs on the same manager', async t => {
+        const { manager, ticks, scheduler } = setup(t);
+        const joining = new ManualScheduler();
+        const first = startRunner(manager, { scheduler, pools: ['other'] });
+        const second = startRunner(manager, { scheduler: joining });
+
+        assert.equal(scheduler.pending, 1);
+        assert.equal(joining.pending, 0);
+        scheduler.runUntilIdle();
+
+        assert.deepEqual(await Promise.all([first.done, second.done]), [true, true]);
+        assert.equal(ticks(), 3);
+        assert.equal(first.progress().ticks, 1);
+        assert.equal(second.progress().ticks, 3);
+    });
+
+    it('stops ticking once the last run is cancelled', async t => {
+        const { manager, ticks, scheduler } = setup(t);
+        const first = startRunner(manager, { scheduler });
+        const second = startRunner(manager, { scheduler });
+
+        first.cancel();
+        scheduler.step();
+        assert.equal(ticks(), 1);
+        second.cancel();
+
+        assert.equal(scheduler.pending, 0);
+        assert.deepEqual(await Promise.all([first.done, second.done]), [false, false]);
+        assert.equal(second.progress().state, 'cancelled');
+        assert.ok(manager.isRefreshing('default'));
+
+        // A new run starts a new loop.
+        const third = startRunner(manager, { scheduler });
+        scheduler.runUntilIdle();
+        assert.equal(await third.done, true);
+    });
+
+    it('fails the run when tick() throws, unless onError is given', async t => {
+        const { manager, tick, scheduler } = setup(t);
+        tick.mock.mockImplementationOnce(() => { throw new Error('boom'); });
+        const errors: unknown[] = [];
+        const tolerant = startRunner(manager, { scheduler, onError: error => errors.push(error) });
+        const strict = startRunner(manager, { scheduler });
+
+        scheduler.step();
+        await assert.rejects(strict.done, /boom/);
+        assert.equal(strict.progress().state, 'failed');
+        assert.equal(errors.length, 1);
+
+        scheduler.runUntilIdle();
+        assert.equal(await tolerant.done, true);
+    });
+
+    it('uses the default scheduler when none is passed', async t => {
+        const { manager, scheduler } = setup(t);
+        setDefaultScheduler(scheduler);
+        try {
+            const run = startRunner(manager);
+            assert.equal(scheduler.pending, 1);
+            scheduler.runUntilIdle();
+            assert.equal(await run.done, true);
+        } finally {
+            setDefaultScheduler(null);
+        }
+        assert.ok(getDefaultScheduler() instanceof ImmediateScheduler);
+    });
+});
+
+describe('schedulers', () => {
+    const runWith = async (t: TestContext, scheduler: Scheduler) => {
+        const { manager } = setup(t);
+        assert.equal(await startRunner(manager, { scheduler }).done, true);
+        assert.ok(manager.areAllReady());
+    };
+
+    it('ImmediateScheduler drives a run to completion', t => runWith(t, new ImmediateScheduler()));
+    it('TimeoutScheduler drives a run to completion', t => runWith(t, new TimeoutScheduler()));
+    it('MessageChannelScheduler drives a run to completion', t => runWith(t, new MessageChannelScheduler()));
+
+    it('AnimationFrameScheduler uses requestAnimationFrame, and needs it', t => {
+        assert.throws(() => new AnimationFrameScheduler(), /needs requestAnimationFrame/);
+
+        const frames = new ManualScheduler();
+        const cancels = new Map<number, () => void>();
+        let nextId = 0;
+        const globals = globalThis as any;
+        globals.requestAnimationFrame = (callback: () => void) => {
+            cancels.set(++nextId, frames.schedule(callback));
+            return nextId;
+        };
+        globals.cancelAnimationFrame = (id: number) => cancels.get(id)?.();
+        try {
+            const { manager } = setup(t);
+            const run = startRunner(manager, { scheduler: new AnimationFrameScheduler() });
+            frames.step();
+            assert.equal(run.progress().ticks, 1);
+            run.cancel();
+            assert.equal(frames.pending, 0);
+        } finally {
+            delete globals.requestAnimationFrame;
+            delete globals.cancelAnimationFrame;
+        }
+    });
+});
@@ -0,0 +1,196 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StoryletManager } from '../src/StoryletManager';
+import { TagCondition, TagIndex, addToTagIndex, lookupTagIndex, matchesTagQuery, sortByTags } from '../src/TagQuery';
+import { compileStory, refreshNow } from './helpers';
+
+const TAGS = { loc: 'string', mood: 'string', priority: 'integer', npcs: 'list' } as const;
+
+const INK = `
+#storylets:m
+-> DONE
+=== m_brawl
+#loc: bar
+#mood: tense
+#priority: 5
+#npcs: guard, drunk
+brawl
+-> DONE
+=== m_toast
+#loc: bar
+#mood: happy
+#priority: 1
+toast
+-> DONE
+=== m_echo
+#loc: cave
+#mood: sad
+#priority: 3
+echo
+-> DONE
+=== m_stroll
+#loc: town
+#npcs: guard
+stroll
+-> DONE
+`;
+
+function setup(source: string = INK) {
+    const manager = new StoryletManager(compileStory(source), { tags: TAGS });
+    refreshNow(manager);
+    return manager;
+}
+
+describe('matchesTagQuery', () => {
+    const tags = { loc: 'bar', priority: 5, npcs: ['guard', 'drunk'] };
+    const matches = (condition: TagCondition, name: string = 'loc') => matchesTagQuery(tags, { [name]: condition });
+
+    it('treats a plain value as equality, or membership for a list tag', () => {
+        assert.ok(matches('bar'));
+        assert.ok(!matches('cave'));
+        assert.ok(matches('guard', 'npcs'));
+        assert.ok(!matches('king', 'npcs'));
+        assert.ok(!matches('bar', 'mood'));
+    });
+
+    it('supports eq and ne, with ne true for an absent tag', () => {
+        assert.ok(matches({ eq: 'bar' }));
+        assert.ok(!matches({ ne: 'bar' }));
+        assert.ok(matches({ ne: 'cave' }));
+        assert.ok(matches({ ne: 'sad' }, 'mood'));
+        assert.ok(!matches({ eq: 'sad' }, 'mood'));
+    });
+
+    it('compares numbers with numbers and strings with strings', () => {
+        assert.ok(matches({ gt: 4, lte: 5 }, 'priority'));
+        assert.ok(!matches({ lt: 5 }, 'priority'));
+        assert.ok(matches({ gte: 5 }, 'priority'));
+        assert.ok(!matches({ gt: 1, lt: 5 }, 'priority'));
+        assert.ok(matches({ gte: 'b', lt: 'c' }));
+        assert.ok(!matches({ gt: '1' }, 'priority'));
+        assert.ok(!matches({ gt: 0 }, 'mood'));
+    });
+
+    it('supports in and notIn, with notIn true for an absent tag', () => {
+        assert.ok(matches({ in: ['bar', 'cave'] }));
+        assert.ok(!matches({ in: ['cave'] }));
+        assert.ok(matches({ in: ['king', 'drunk'] }, 'npcs'));
+        assert.ok(!matches({ notIn: ['bar'] }));
+        assert.ok(matches({ notIn: ['sad'] }, 'mood'));
+    });
+
+    it('supports exists', () => {
+        assert.ok(matches({ exists: true }));
+        assert.ok(!matches({ exists: false }));
+        assert.ok(matches({ exists: false }, 'mood'));
+    });
+
+    it('requires every condition, matching tag names case-insensitively', () => {
+        assert.ok(matchesTagQuery(tags, { LOC: 'bar', Priority: { gte: 3 } }));
+        assert.ok(!matchesTagQuery(tags, { loc: 'bar', priority: { gte: 6 } }));
+    });
+
+    it('throws on an unknown operator', () => {
+        assert.throws(() => matches({ like: 'b%' } as any), /Unknown operator "like"/);
+    });
+});
+
+describe('sortByTags', () => {
+    const tags: Record<string, Record<string, any>> = {
+        a: { priority: 2, loc: 'cave' }, b: { priority: 5 }, c: { loc: 'bar' }, d: { priority: 2, loc: 'bar' }
+    };
+
+    it('sorts ascending or descending, tags missing last, ties in order', () => {
+        assert.deepEqual(sortByTags(['a', 'b', 'c', 'd'], id => tags[id], 'priority'), ['a', 'd', 'b', 'c']);
+        assert.deepEqual(sortByTags(['a', 'b', 'c', 'd'], id => tags[id], { tag: 'priority', order: 'desc' }), ['b', 'a', 'd', 'c']);
+        assert.deepEqual(sortByTags(['a', 'b', 'c', 'd'], id => tags[id], ['priority', 'loc']), ['d', 'a', 'b', 'c']);
+    });
+});
+
+describe('TagIndex', () => {
+    it('narrows equality and in conditions to the positions that can match', () => {
+        const index: TagIndex = new Map();
+        addToTagIndex(index, 0, { loc: 'bar', npcs: ['guard', 'drunk'] });
+        addToTagIndex(index, 1, { loc: 'cave', npcs: ['guard'] });
+        addToTagIndex(index, 2, { loc: 'bar' });
+
+        assert.deepEqual(lookupTagIndex(index, { loc: 'bar' }), [0, 2]);
+        assert.deepEqual(lookupTagIndex(index, { loc: { in: ['cave', 'bar'] } }), [0, 1, 2]);
+        assert.deepEqual(lookupTagIndex(index, { loc: 'bar', npcs: { eq: 'drunk' } }), [0]);
+        assert.deepEqual(lookupTagIndex(index, { loc: 'town' }), []);
+        assert.equal(lookupTagIndex(index, { loc: { ne: 'bar' } }), null);
+    });
+});
+
+describe('querying playable storylets', () => {
+    it('filters, sorts and limits', () => {
+        const manager = setup();
+
+        assert.deepEqual(manager.queryPlayableStorylets({
+            where: { loc: { in: ['bar', 'cave'] }, mood: { ne: 'sad' }, priority: { gte: 1 } },
+            sortBy: { tag: 'priority', order: 'desc' }
+        }), ['m_brawl', 'm_toast']);
+        assert.deepEqual(manager.queryPlayableStorylets({ sortBy: 'priority', limit: 2 }), ['m_toast', 'm_echo']);
+        assert.equal(manager.queryFirstPlayableStorylet({ where: { npcs: 'guard' } }), 'm_brawl');
+        assert.deepEqual(manager.getPlayableStoryletsWithTag('loc', 'bar'), ['m_brawl', 'm_toast']);
+        assert.equal(manager.getFirstPlayableStoryletWithTag('priority', { lt: 3 }), 'm_toast');
+    });
+
+    it('groups by a tag, putting list tags under each value', () => {
+        const manager = setup();
+
+        assert.deepEqual(manager.groupPlayableByTag('loc'), new Map([
+            ['bar', ['m_brawl', 'm_toast']], ['cave', ['m_echo']], ['town', ['m_stroll']]
+        ]));
+        assert.deepEqual(manager.groupPlayableByTag('npcs'), new Map([['guard', ['m_brawl', 'm_stroll']], ['drunk', ['m_brawl']]]));
+    });
+
+    it('only searches pools that have completed a refresh', () => {
+        const manager = setup();
+        manager.refresh();
+
+        assert.deepEqual(manager.getPlayableStoryletsWithTag('loc', 'bar'), []);
+        assert.deepEqual(manager.groupPlayableByTag('loc'), new Map());
+    });
+
+    it('stays in step with the hand as storylets are played', () => {
+        const manager = new StoryletManager(compileStory(INK.replace('#loc: bar\n#mood: tense', '#loc: bar\n#mood: tense\n#once')), { tags: TAGS });
+        refreshNow(manager);
+        manager.markPlayed('m_brawl');
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStoryletsWithTag('loc', 'bar'), ['m_toast']);
+        assert.deepEqual(manager.groupPlayableByTag('npcs'), new Map([['guard', ['m_stroll']]]));
+    });
+
+    it('drops storylets taken out with removeStorylets()', t => {
+        t.mock.method(console, 'warn', () => {});
+        const manager = setup();
+        manager.addStorylet('m_echo', 'solo');
+        refreshNow(manager, 'solo');
+        manager.removeStorylets('m');
+
+        assert.deepEqual(manager.getPlayableStoryletsWithTag('loc', 'bar'), []);
+        assert.deepEqual(manager.groupPlayableByTag('loc'), new Map([['cave', ['m_echo']]]));
+    });
+
+    it('uses the new tags after replaceStory()', () => {
+        const manager = setup();
+        const edited = INK.replace('#loc: cave', '#loc: bar').replace(/=== m_toast[\s\S]*?-> DONE\n/, '');
+        manager.replaceStory(compileStory(edited));
+        refreshNow(manager);
+
+        assert.deepEqual(manager.getPlayableStoryletsWithTag('loc', 'bar'), ['m_brawl', 'm_echo']);
+        assert.deepEqual(manager.getPlayableStoryletsWithTag('loc', 'cave'), []);
+        assert.deepEqual(manager.groupPlayableByTag('mood'), new Map([['tense', ['m_brawl']], ['sad', ['m_echo']]]));
+    });
+
+    it('drops removed storylets from a ready hand on replaceStory() without a refresh', () => {
+        const manager = setup();
+        manager.replaceStory(compileStory(INK.replace(/=== m_toast[\s\S]*?-> DONE\n/, '')), { refresh: false });
+
+        assert.ok(manager.isReady());
+        assert.deepEqual(manager.getPlayableStoryletsWithTag('loc', 'bar'), ['m_brawl']);
+        assert.deepEqual(manager.groupPlayableByTag('loc').get('bar'), ['m_brawl']);
+    });
+});
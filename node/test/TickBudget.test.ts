@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createManager } from './helpers';
+
+const INK = `
+#storylets:a
+#storylets:b,other
+-> DONE
+=== function _a_1()
+~ return true
+=== a_1
+-> DONE
+=== function _a_2()
+~ return true
+=== a_2
+-> DONE
+=== function _a_3()
+~ return true
+=== a_3
+-> DONE
+=== function _a_4()
+~ return true
+=== a_4
+-> DONE
+=== function _b_1()
+~ return true
+=== b_1
+-> DONE
+=== function _b_2()
+~ return true
+=== b_2
+-> DONE
+`;
+
+/** A refreshing manager on a fake clock where each predicate takes 2ms, recording the order they run in. */
+function setup() {
+    const manager = createManager(INK);
+    let now = 0;
+    manager.clock = () => now;
+    const evaluated: string[] = [];
+    manager.getStory().onEvaluateFunction = name => {
+        evaluated.push(name.slice(1));
+        now += 2;
+    };
+    manager.refresh();
+    const counts = () => [manager.getRefreshProgress('default')!.evaluated, manager.getRefreshProgress('other')!.evaluated];
+    return { manager, evaluated, counts };
+}
+
+describe('tick with a time budget', () => {
+    it('evaluates storylets until the budget is spent', () => {
+        const { manager, evaluated } = setup();
+        manager.setPoolPriority(1);
+
+        manager.tick({ budgetMs: 5 });
+        assert.deepEqual(evaluated, ['a_1', 'a_2', 'a_3']);
+        manager.tick({ budgetMs: 2 });
+        assert.deepEqual(evaluated, ['a_1', 'a_2', 'a_3', 'a_4']);
+    });
+
+    it('evaluates at least one storylet, however small the budget', () => {
+        const { manager, counts } = setup();
+
+        manager.tick({ budgetMs: 0 });
+        assert.deepEqual(counts(), [1, 0]);
+    });
+
+    it('uses tickBudgetMs when no budget is passed, and storyletsPerTick when neither is', () => {
+        const { manager, counts } = setup();
+        manager.storyletsPerTick = 1;
+        manager.tickBudgetMs = 6;
+
+        manager.tick();
+        assert.deepEqual(counts(), [2, 1]);
+        manager.tick({ budgetMs: 1 });
+        assert.deepEqual(counts(), [2, 2]);
+
+        manager.tickBudgetMs = null;
+        manager.tick();
+        assert.deepEqual(counts(), [3, 2]);
+    });
+
+    it('takes turns between pools of equal priority, across ticks', () => {
+        const { manager, evaluated } = setup();
+
+        manager.tick({ budgetMs: 5 });
+        manager.tick({ budgetMs: 3 });
+        assert.deepEqual(evaluated, ['a_1', 'b_1', 'a_2', 'b_2', 'a_3']);
+
+        // With 'other' done, the rest of the budget goes to the default pool.
+        manager.tick({ budgetMs: 100 });
+        assert.deepEqual(evaluated.slice(5), ['a_4']);
+        assert.ok(manager.areAllReady());
+    });
+
+    it('refreshes higher priority pools first, moving on only once they are done', () => {
+        const { manager, evaluated, counts } = setup();
+        manager.setPoolPriority(2, 'other');
+
+        manager.tick({ budgetMs: 1 });
+        assert.deepEqual(counts(), [0, 1]);
+        manager.tick({ budgetMs: 5 });
+        assert.deepEqual(evaluated, ['b_1', 'b_2', 'a_1', 'a_2']);
+        assert.ok(manager.isReady('other'));
+    });
+
+    it('completes a pool whose list is empty without spending the budget', () => {
+        const { manager, counts } = setup();
+        manager.setPoolPriority(1, 'other');
+        manager.tick({ budgetMs: 100 });
+        manager.refresh('other');
+        manager.removeStorylets('b', 'other');
+
+        manager.tick({ budgetMs: 0 });
+        assert.ok(manager.isReady('other'));
+        assert.deepEqual(counts(), [4, 0]);
+    });
+});
@@ -0,0 +1,25 @@
+import { Story } from 'inkjs';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { SeededRandom, StoryletManager } from '../src/StoryletManager';
+
+/** Compile Ink source to a Story, so each test can keep its content next to its checks. */
+export function compileStory(source: string): Story {
+    return new Story(new Compiler(source).Compile().ToJson()!);
+}
+
+/** A manager over freshly compiled Ink, with a fixed seed so picks are reproducible. */
+export function createManager(source: string, seed: number = 1): StoryletManager {
+    const manager = new StoryletManager(compileStory(source));
+    manager.random = new SeededRandom(seed);
+    return manager;
+}
+
+/** Refresh a pool (or all pools) and tick until it is ready. */
+export function refreshNow(manager: StoryletManager, pool?: string): void {
+    manager.refresh(pool);
+    const isReady = () => pool !== undefined ? manager.isReady(pool) : manager.areAllReady();
+    for (let ticks = 0; !isReady(); ticks++) {
+        if (ticks > 1000) throw new Error(`Refresh of ${pool ?? 'all pools'} didn't complete`);
+        manager.tick();
+    }
+}
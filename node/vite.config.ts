@@ -13,7 +13,10 @@ export default defineConfig({
         lib: {
             entry: {
                 StoryletManager: resolve(__dirname, 'src/StoryletManager.ts'),
-                StoryletRunner: resolve(__dirname, 'src/StoryletRunner.ts')
+                StoryletRunner: resolve(__dirname, 'src/StoryletRunner.ts'),
+                StoryletLinter: resolve(__dirname, 'src/StoryletLinter.ts'),
+                StoryletLintCli: resolve(__dirname, 'src/StoryletLintCli.ts'),
+                StoryletWatcher: resolve(__dirname, 'src/StoryletWatcher.ts')
             },
             // Formats are overridden by rollupOptions.output
             formats: ['es', 'cjs']